@@ -0,0 +1,78 @@
+import { performance } from 'perf_hooks';
+import { FieldRuntime, ManualClock } from '../services/FieldRuntime';
+import { HarmonicFieldProcessor, TICK_INTERVAL_MS } from '../services/HarmonicFieldProcessor';
+
+// Cost of a field tick as the field grows, with every node streaming every 2 seconds, and
+// that cost spread over the streams it applied. Restoring a processor from storage runs the
+// all-pairs pass that used to run on every message, so it is timed alongside as the
+// reference, and its stats are compared with the incrementally maintained ones.
+//
+//   bun run backend/benchmarks/harmonicStream.ts [nodeCounts=100,200,400,800] [ticks=200]
+
+const SOLFEGGIO = [174, 285, 396, 417, 432, 528, 639, 741, 852, 963];
+const STREAM_INTERVAL_MS = 2000;
+
+const nodeCounts = (process.argv[2] || '100,200,400,800').split(',').map(Number);
+const ticks = Number(process.argv[3] || 200);
+
+const runtime = FieldRuntime.getInstance();
+const clock = new ManualClock(1_700_000_000_000);
+runtime.setClock(clock);
+runtime.setSeed(64);
+
+function randomFrequency(): number {
+  const base = SOLFEGGIO[Math.floor(runtime.next() * SOLFEGGIO.length)];
+  return base * (0.9 + runtime.next() * 0.2);
+}
+
+function time(runs: number, fn: () => void): number {
+  const start = performance.now();
+  for (let i = 0; i < runs; i++) fn();
+  return (performance.now() - start) / runs;
+}
+
+console.log('🎵 Harmonic stream benchmark (ms per call)');
+console.log('nodes    tick  perStream  allPairsRebuild  maxStatsDrift');
+
+nodeCounts.forEach(nodeCount => {
+  const namespace = `benchmark_${nodeCount}_${clock.now()}`;
+  const processor = new HarmonicFieldProcessor(namespace);
+  const userIds = Array.from({ length: nodeCount }, (_, i) => `bench_node_${i}`);
+
+  userIds.forEach(userId => processor.queueHarmonicStream(randomFrequency(), 0.3, userId));
+  processor.tick();
+
+  // Streams arriving between two ticks
+  const streamsPerTick = Math.max(1, Math.round(nodeCount * TICK_INTERVAL_MS / STREAM_INTERVAL_MS));
+  let next = 0;
+  const tick = time(ticks, () => {
+    clock.advance(TICK_INTERVAL_MS);
+    for (let i = 0; i < streamsPerTick; i++) {
+      processor.queueHarmonicStream(randomFrequency(), 0.2 + runtime.next() * 0.2, userIds[next]);
+      next = (next + 1) % nodeCount;
+    }
+    processor.tick();
+  });
+
+  let restored: HarmonicFieldProcessor | null = null;
+  const rebuild = time(3, () => {
+    restored = new HarmonicFieldProcessor(namespace);
+  });
+
+  const live = processor.getFieldStats();
+  const rebuilt = restored!.getFieldStats();
+  const drift = Math.max(
+    Math.abs(live.globalResonance - rebuilt.globalResonance),
+    Math.abs(live.averageFrequency - rebuilt.averageFrequency),
+    Math.abs(live.fieldCoherence - rebuilt.fieldCoherence),
+    Math.abs(live.phiHarmonicsCount - rebuilt.phiHarmonicsCount),
+    Math.abs(live.intervalsCount - rebuilt.intervalsCount),
+    Math.abs(live.chordsCount - rebuilt.chordsCount),
+    Math.abs(live.fibonacciChainsCount - rebuilt.fibonacciChainsCount)
+  );
+
+  console.log(
+    `${String(nodeCount).padStart(5)}  ${tick.toFixed(3).padStart(6)}  ${(tick / streamsPerTick).toFixed(3).padStart(9)}` +
+    `  ${rebuild.toFixed(2).padStart(15)}  ${drift.toExponential(1).padStart(13)}`
+  );
+});
@@ -0,0 +1,84 @@
+import { performance } from 'perf_hooks';
+import { FieldRuntime, ManualClock } from '../services/FieldRuntime';
+import { HarmonicFieldProcessor, HarmonicUpdate, TICK_INTERVAL_MS } from '../services/HarmonicFieldProcessor';
+
+// Field tick cost with the interference and sampling cutoff against the exact all-nodes
+// result (cutoff Infinity), on identical input: nodes spread uniformly over 20-10000 Hz, which
+// spreads them evenly over the spiral's disc, each streaming every 2 seconds. Also reports
+// how far the cutoff moves the output.
+//
+//   bun run backend/benchmarks/spatialIndex.ts [nodeCounts=1000,2000,4000] [cutoffs=150,100,50] [ticks=50]
+
+const STREAM_INTERVAL_MS = 2000;
+const START_TIME = 1_700_000_000_000;
+
+const nodeCounts = (process.argv[2] || '1000,2000,4000').split(',').map(Number);
+const cutoffs = (process.argv[3] || '150,100,50').split(',').map(Number);
+const ticks = Number(process.argv[4] || 50);
+
+const runtime = FieldRuntime.getInstance();
+
+interface Run {
+  tickMs: number;
+  update: HarmonicUpdate;
+  phiHarmonics: number;
+}
+
+// Same seed and clock for every run, so only the cutoff differs
+function run(nodeCount: number, cutoffRadius: number): Run {
+  const clock = new ManualClock(START_TIME);
+  runtime.setClock(clock);
+  runtime.setSeed(23);
+
+  const frequencies = Array.from({ length: nodeCount }, () => 20 + runtime.next() * 9980);
+  const processor = new HarmonicFieldProcessor(`benchmark_${nodeCount}_${cutoffRadius}`, { cutoffRadius });
+  frequencies.forEach((frequency, i) => processor.queueHarmonicStream(frequency, 0.5, `bench_node_${i}`));
+  processor.tick();
+
+  const streamsPerTick = Math.max(1, Math.round(nodeCount * TICK_INTERVAL_MS / STREAM_INTERVAL_MS));
+  let next = 0;
+  const start = performance.now();
+  for (let t = 0; t < ticks; t++) {
+    clock.advance(TICK_INTERVAL_MS);
+    for (let i = 0; i < streamsPerTick; i++) {
+      const frequency = frequencies[next] * (0.99 + runtime.next() * 0.02);
+      processor.queueHarmonicStream(frequency, 0.2 + runtime.next() * 0.6, `bench_node_${next}`);
+      next = (next + 1) % nodeCount;
+    }
+    processor.tick();
+  }
+
+  return {
+    tickMs: (performance.now() - start) / ticks,
+    update: processor.getSnapshot(),
+    phiHarmonics: processor.getFieldStats().phiHarmonicsCount
+  };
+}
+
+function maxFieldError(exact: HarmonicUpdate, approximate: HarmonicUpdate): number {
+  return Math.max(...exact.quantumField.map((point, i) => {
+    const other = approximate.quantumField[i];
+    return Math.max(
+      Math.abs(point.intensity - other.intensity),
+      Math.abs(point.quantumState.psi_bloom - other.quantumState.psi_bloom),
+      Math.abs(point.resonance - other.resonance)
+    );
+  }));
+}
+
+console.log('🗺️ Spatial index benchmark (ms per field tick)');
+console.log('nodes  cutoff    tick  speedup  maxFieldError  phiHarmonics');
+
+nodeCounts.forEach(nodeCount => {
+  const exact = run(nodeCount, Infinity);
+  console.log(`${String(nodeCount).padStart(5)}       ∞  ${exact.tickMs.toFixed(2).padStart(6)}        1  ${'0'.padStart(13)}  ${String(exact.phiHarmonics).padStart(12)}`);
+
+  cutoffs.forEach(cutoffRadius => {
+    const result = run(nodeCount, cutoffRadius);
+    console.log(
+      `${String(nodeCount).padStart(5)}  ${String(cutoffRadius).padStart(6)}  ${result.tickMs.toFixed(2).padStart(6)}` +
+      `  ${(exact.tickMs / result.tickMs).toFixed(1).padStart(7)}  ${maxFieldError(exact.update, result.update).toExponential(1).padStart(13)}` +
+      `  ${String(result.phiHarmonics).padStart(12)}`
+    );
+  });
+});
@@ -1,8 +1,27 @@
 import { Hono } from "hono";
 import { trpcServer } from "@hono/trpc-server";
 import { cors } from "hono/cors";
+import type { ServerType } from "@hono/node-server";
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer } from "ws";
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
+import { activeSessions } from "./trpc/routes/limnus/consent/route";
+import { HarmonicResonanceServer, resolveRoomId } from "./websocket/HarmonicWebSocketServer";
+import { FieldRoomRegistry } from "./services/FieldRoomRegistry";
+import { FieldMetrics } from "./services/FieldMetrics";
+import { DeviceAuth, readHandshakeToken } from "./services/DeviceAuth";
+import { StreamRateLimiter } from "./services/StreamRateLimiter";
+import { FieldBus } from "./pubsub/FieldBus";
+
+// Path clients connect to for real-time harmonic streaming
+const HARMONIC_WS_PATH = "/api/harmonic-ws";
+
+const LIMNUS_SESSION_STATUSES = ['active', 'reflecting', 'composing', 'syncing', 'holding', 'completed'] as const;
+
+// Set once the WebSocket server is attached to the HTTP server
+let harmonicServer: HarmonicResonanceServer | null = null;
 
 // app will be mounted at /api
 const app = new Hono();
@@ -25,4 +44,106 @@ app.get("/", (c) => {
   return c.json({ status: "ok", message: "API is running" });
 });
 
-export default app;
\ No newline at end of file
+// Consciousness field health: processor and WebSocket status
+app.get("/health", (c) => {
+  const rooms = FieldRoomRegistry.getInstance();
+  const stats = rooms.getDefaultProcessor().getFieldStats();
+
+  return c.json({
+    status: "ok",
+    uptime: FieldMetrics.getInstance().getUptime(),
+    processor: {
+      status: "active",
+      activeNodes: stats.activeNodes,
+      globalResonance: stats.globalResonance,
+      fieldCoherence: stats.fieldCoherence,
+      phiHarmonicsCount: stats.phiHarmonicsCount,
+      lastUpdate: stats.lastUpdate,
+    },
+    websocket: harmonicServer
+      ? {
+          status: "online",
+          activeConnections: harmonicServer.getActiveConnections(),
+          suspendedSessions: harmonicServer.getSuspendedSessions(),
+          globalResonance: harmonicServer.getGlobalResonance(),
+        }
+      : { status: "offline", activeConnections: 0, suspendedSessions: 0, globalResonance: 0 },
+    rooms: rooms.list().map((room) => ({
+      id: room.info.id,
+      name: room.info.name,
+      activeNodes: room.processor.getFieldStats().activeNodes,
+      connections: harmonicServer?.getActiveConnections(room.info.id) ?? 0,
+    })),
+    flaggedNodes: StreamRateLimiter.getInstance().getFlaggedNodes(),
+    bus: {
+      adapter: FieldBus.getInstance().getAdapter().name,
+      instanceId: FieldBus.getInstance().instanceId,
+    },
+    timestamp: Date.now(),
+  });
+});
+
+// Prometheus metrics
+app.get("/metrics", (c) => {
+  const limnusSessions: Record<string, number> = {};
+  LIMNUS_SESSION_STATUSES.forEach((status) => {
+    limnusSessions[status] = 0;
+  });
+  activeSessions.forEach((session) => {
+    limnusSessions[session.status] += 1;
+  });
+
+  const body = FieldMetrics.getInstance().render({
+    rooms: FieldRoomRegistry.getInstance().list().map((room) => ({
+      roomId: room.info.id,
+      fieldStats: room.processor.getFieldStats(),
+      websocketConnections: harmonicServer?.getActiveConnections(room.info.id) ?? 0,
+    })),
+    limnusSessions,
+  });
+
+  return c.text(body, 200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
+});
+
+// Attach the harmonic resonance WebSocket to the HTTP server
+export function initializeWebSocketServer(server: ServerType): HarmonicResonanceServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const resonanceServer = new HarmonicResonanceServer(wss);
+  resonanceServer.initialize();
+  harmonicServer = resonanceServer;
+
+  server.on("upgrade", (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(request.url ?? "/", `http://${request.headers.host ?? "localhost"}`);
+
+    // Only the harmonic endpoint accepts upgrades
+    if (pathname !== HARMONIC_WS_PATH) {
+      socket.write("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    if (!FieldRoomRegistry.getInstance().get(resolveRoomId(request))) {
+      socket.write("HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    // A presented device token must verify; omitting it connects anonymously
+    const token = readHandshakeToken(request);
+    if (token && !DeviceAuth.getInstance().verify(token)) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit("connection", ws, request);
+    });
+  });
+
+  return resonanceServer;
+}
+
+export default app;
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FieldBus } from './FieldBus';
+import { InProcessPubSubAdapter } from './InProcessPubSubAdapter';
+import { LocalIpcPubSubAdapter } from './LocalIpcPubSubAdapter';
+import type { FieldBusEnvelope, FieldBusMessage, PubSubAdapter } from './PubSubAdapter';
+
+const syncRequest: FieldBusMessage = { type: 'sync_request' };
+
+function contribution(roomId: string): FieldBusMessage {
+  return { type: 'resonance_contribution', roomId, totalResonance: 0.5, sessions: 1 };
+}
+
+// Poll until the condition holds, as delivery crosses sockets and timers
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the field bus');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function collect(adapter: PubSubAdapter): FieldBusEnvelope[] {
+  const received: FieldBusEnvelope[] = [];
+  adapter.subscribe(envelope => received.push(envelope));
+  return received;
+}
+
+let log: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+function logged(text: string): number {
+  return log.mock.calls.filter(([line]) => typeof line === 'string' && line.includes(text)).length;
+}
+
+describe('InProcessPubSubAdapter', () => {
+  it('delivers every envelope to every subscriber after the publish returns', async () => {
+    const adapter = new InProcessPubSubAdapter();
+    const first = collect(adapter);
+    const second = collect(adapter);
+
+    adapter.publish({ origin: 'a', message: syncRequest });
+    expect(first).toEqual([]);
+
+    await waitFor(() => first.length === 1 && second.length === 1);
+    expect(first).toEqual([{ origin: 'a', message: syncRequest }]);
+    adapter.close();
+  });
+
+  it('stops delivering to a handler once unsubscribed', async () => {
+    const adapter = new InProcessPubSubAdapter();
+    const handler = vi.fn();
+    const unsubscribe = adapter.subscribe(handler);
+    const received = collect(adapter);
+
+    unsubscribe();
+    adapter.publish({ origin: 'a', message: syncRequest });
+    await waitFor(() => received.length === 1);
+    expect(handler).not.toHaveBeenCalled();
+    adapter.close();
+  });
+});
+
+describe('FieldBus', () => {
+  it('passes on messages from other instances and skips its own', async () => {
+    const bus = FieldBus.getInstance();
+    const handler = vi.fn();
+    const unsubscribe = bus.subscribe(handler);
+
+    bus.publish(contribution('own'));
+    bus.getAdapter().publish({ origin: 'other-instance', message: contribution('remote') });
+    await waitFor(() => handler.mock.calls.length > 0);
+    // Both were published before either was delivered, so the own message has been skipped
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(handler.mock.calls).toEqual([[contribution('remote'), 'other-instance']]);
+    unsubscribe();
+  });
+});
+
+describe('LocalIpcPubSubAdapter', () => {
+  let socketPath: string;
+  let adapters: LocalIpcPubSubAdapter[];
+
+  beforeEach(() => {
+    socketPath = path.join(os.tmpdir(), `field-bus-test-${process.pid}-${Math.random().toString(36).slice(2)}.sock`);
+    adapters = [];
+  });
+
+  afterEach(() => {
+    adapters.forEach(adapter => adapter.close());
+    fs.rmSync(socketPath, { force: true });
+  });
+
+  function open(): LocalIpcPubSubAdapter {
+    const adapter = new LocalIpcPubSubAdapter(socketPath);
+    adapters.push(adapter);
+    return adapter;
+  }
+
+  // The first adapter relays; the others join it
+  async function openConnected(count: number): Promise<LocalIpcPubSubAdapter[]> {
+    const hub = open();
+    await waitFor(() => logged('relaying') === 1);
+    const peers = Array.from({ length: count - 1 }, open);
+    await waitFor(() => logged('joined') === count - 1);
+    return [hub, ...peers];
+  }
+
+  it('fans a peer envelope out to the relay and the other peers, but not back to the sender', async () => {
+    const [hub, first, second] = await openConnected(3);
+    const [atHub, atFirst, atSecond] = [hub, first, second].map(collect);
+
+    first.publish({ origin: 'first', message: contribution('room-a') });
+    await waitFor(() => atHub.length === 1 && atSecond.length === 1);
+    expect(atSecond).toEqual([{ origin: 'first', message: contribution('room-a') }]);
+
+    hub.publish({ origin: 'hub', message: syncRequest });
+    await waitFor(() => atFirst.length === 1 && atSecond.length === 2);
+    expect(atFirst).toEqual([{ origin: 'hub', message: syncRequest }]);
+    expect(atHub).toHaveLength(1);
+  });
+
+  it('sends envelopes published before joining once connected', async () => {
+    const hub = open();
+    await waitFor(() => logged('relaying') === 1);
+    const atHub = collect(hub);
+
+    const peer = open();
+    peer.publish({ origin: 'peer', message: syncRequest });
+    await waitFor(() => atHub.length === 1);
+    expect(atHub[0]).toEqual({ origin: 'peer', message: syncRequest });
+  });
+
+  it('takes over a socket file left behind by a process that died', async () => {
+    // Nothing accepts connections on a leftover file, as after a crash
+    fs.writeFileSync(socketPath, '');
+    open();
+    await waitFor(() => logged('relaying') === 1);
+  });
+
+  it('hands the relay to a remaining peer when the relaying process exits', async () => {
+    const [hub, first, second] = await openConnected(3);
+    const atSecond = collect(second);
+
+    hub.close();
+    await waitFor(() => logged('relaying') === 2 && logged('joined') === 3);
+
+    first.publish({ origin: 'first', message: syncRequest });
+    await waitFor(() => atSecond.length === 1);
+    expect(atSecond).toEqual([{ origin: 'first', message: syncRequest }]);
+  });
+});
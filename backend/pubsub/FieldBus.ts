@@ -0,0 +1,63 @@
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import type { PubSubAdapter, FieldBusMessage } from './PubSubAdapter';
+import { InProcessPubSubAdapter } from './InProcessPubSubAdapter';
+import { LocalIpcPubSubAdapter } from './LocalIpcPubSubAdapter';
+
+// Selects the pub/sub adapter that fans field changes out to other server instances:
+//   CONSCIOUSNESS_PUBSUB=memory (default) | ipc
+//   CONSCIOUSNESS_PUBSUB_PATH=<socket path> (ipc adapter only, default <tmpdir>/consciousness-field.sock)
+export class FieldBus {
+  private static instance: FieldBus;
+  private adapter: PubSubAdapter;
+  readonly instanceId = `${os.hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+
+  private constructor(adapter: PubSubAdapter) {
+    this.adapter = adapter;
+  }
+
+  static getInstance(): FieldBus {
+    if (!FieldBus.instance) {
+      FieldBus.instance = new FieldBus(FieldBus.createAdapter());
+      console.log(`📡 Field bus: ${FieldBus.instance.adapter.name} (instance ${FieldBus.instance.instanceId})`);
+    }
+    return FieldBus.instance;
+  }
+
+  private static createAdapter(): PubSubAdapter {
+    const kind = process.env.CONSCIOUSNESS_PUBSUB || 'memory';
+
+    switch (kind) {
+      case 'memory':
+        return new InProcessPubSubAdapter();
+      case 'ipc':
+        return new LocalIpcPubSubAdapter(
+          path.resolve(process.env.CONSCIOUSNESS_PUBSUB_PATH || path.join(os.tmpdir(), 'consciousness-field.sock'))
+        );
+      default:
+        throw new Error(`Unknown CONSCIOUSNESS_PUBSUB adapter: ${kind}`);
+    }
+  }
+
+  publish(message: FieldBusMessage): void {
+    this.adapter.publish({ origin: this.instanceId, message });
+  }
+
+  // Messages from other instances; this instance's own messages are skipped
+  subscribe(handler: (message: FieldBusMessage, origin: string) => void): () => void {
+    return this.adapter.subscribe(envelope => {
+      if (envelope.origin !== this.instanceId) {
+        handler(envelope.message, envelope.origin);
+      }
+    });
+  }
+
+  getAdapter(): PubSubAdapter {
+    return this.adapter;
+  }
+
+  close(): void {
+    this.adapter.close();
+  }
+}
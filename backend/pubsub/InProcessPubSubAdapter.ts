@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+import type { PubSubAdapter, FieldBusEnvelope } from './PubSubAdapter';
+
+// Single-process fan-out; nothing leaves this process
+export class InProcessPubSubAdapter implements PubSubAdapter {
+  readonly name = 'memory';
+  private events = new EventEmitter();
+
+  constructor() {
+    this.events.setMaxListeners(0);
+  }
+
+  publish(envelope: FieldBusEnvelope): void {
+    // Deliver asynchronously, as a network transport would
+    setImmediate(() => this.events.emit('envelope', envelope));
+  }
+
+  subscribe(handler: (envelope: FieldBusEnvelope) => void): () => void {
+    this.events.on('envelope', handler);
+    return () => this.events.off('envelope', handler);
+  }
+
+  close(): void {
+    this.events.removeAllListeners();
+  }
+}
@@ -0,0 +1,174 @@
+import net from 'net';
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import type { PubSubAdapter, FieldBusEnvelope } from './PubSubAdapter';
+
+// Fan-out between processes on one machine over a Unix domain socket, one JSON envelope per line.
+// The first process to bind the socket relays for the rest; when it exits the others
+// reconnect and one of them takes over. Envelopes published while reconnecting are buffered.
+export class LocalIpcPubSubAdapter implements PubSubAdapter {
+  readonly name = 'ipc';
+  private events = new EventEmitter();
+  private hub: net.Server | null = null;
+  private peers: Set<net.Socket> = new Set();
+  private upstream: net.Socket | null = null;
+  private backlog: string[] = [];
+  private maxBacklog = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(private socketPath: string) {
+    this.events.setMaxListeners(0);
+    this.connect();
+  }
+
+  publish(envelope: FieldBusEnvelope): void {
+    const line = `${JSON.stringify(envelope)}\n`;
+
+    if (this.hub) {
+      this.relay(line, null);
+    } else if (this.upstream) {
+      this.upstream.write(line);
+    } else {
+      this.backlog.push(line);
+      if (this.backlog.length > this.maxBacklog) {
+        this.backlog.shift();
+      }
+    }
+  }
+
+  subscribe(handler: (envelope: FieldBusEnvelope) => void): () => void {
+    this.events.on('envelope', handler);
+    return () => this.events.off('envelope', handler);
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.upstream?.destroy();
+    this.peers.forEach(peer => peer.destroy());
+    this.hub?.close();
+    this.events.removeAllListeners();
+  }
+
+  // Join the relaying process, or become it when nobody is listening
+  private connect(): void {
+    if (this.closed) return;
+
+    const socket = net.createConnection(this.socketPath);
+    let connected = false;
+
+    socket.on('connect', () => {
+      connected = true;
+      this.upstream = socket;
+      console.log(`📡 Field bus joined ${this.socketPath}`);
+      this.backlog.forEach(line => socket.write(line));
+      this.backlog = [];
+    });
+
+    this.readLines(socket, line => this.deliver(line));
+
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (!connected && (error.code === 'ENOENT' || error.code === 'ECONNREFUSED')) {
+        this.becomeHub(error.code === 'ECONNREFUSED');
+      } else {
+        console.error('Field bus connection error:', error.message);
+      }
+    });
+
+    socket.on('close', () => {
+      if (this.upstream === socket) {
+        this.upstream = null;
+        console.warn('⚠️ Field bus relay went away, reconnecting...');
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private becomeHub(stale: boolean): void {
+    if (this.closed) return;
+
+    // A socket file nobody answers on was left behind by a process that died
+    if (stale) {
+      try {
+        fs.unlinkSync(this.socketPath);
+      } catch {
+        // Already removed by another process
+      }
+    }
+
+    const server = net.createServer(peer => this.acceptPeer(peer));
+
+    server.on('error', (error: NodeJS.ErrnoException) => {
+      // Another process bound the socket first; join it instead
+      if (error.code === 'EADDRINUSE') {
+        this.scheduleReconnect();
+      } else {
+        console.error('Field bus relay error:', error.message);
+      }
+    });
+
+    server.listen(this.socketPath, () => {
+      this.hub = server;
+      console.log(`📡 Field bus relaying on ${this.socketPath}`);
+      this.backlog.forEach(line => this.relay(line, null));
+      this.backlog = [];
+    });
+  }
+
+  private acceptPeer(peer: net.Socket): void {
+    this.peers.add(peer);
+
+    // Lines arrive without their terminator, which the other peers need to split them
+    this.readLines(peer, line => {
+      this.deliver(line);
+      this.relay(`${line}\n`, peer);
+    });
+
+    peer.on('close', () => this.peers.delete(peer));
+    peer.on('error', () => this.peers.delete(peer));
+  }
+
+  // Forward a line to every connected peer except the one it came from
+  private relay(line: string, from: net.Socket | null): void {
+    this.peers.forEach(peer => {
+      if (peer !== from && peer.writable) {
+        peer.write(line);
+      }
+    });
+  }
+
+  private deliver(line: string): void {
+    try {
+      this.events.emit('envelope', JSON.parse(line) as FieldBusEnvelope);
+    } catch (error: any) {
+      console.error('Dropping malformed field bus envelope:', error.message);
+    }
+  }
+
+  private readLines(socket: net.Socket, onLine: (line: string) => void): void {
+    let buffered = '';
+    socket.setEncoding('utf8');
+
+    socket.on('data', (chunk: string) => {
+      buffered += chunk;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      lines.forEach(line => {
+        if (line) onLine(line);
+      });
+    });
+  }
+
+  // Jitter keeps processes that lost the relay together from racing for the socket
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, 100 + Math.random() * 400);
+  }
+}
@@ -0,0 +1,33 @@
+import type { HarmonicNode, QuantumEntanglement } from '../services/HarmonicFieldProcessor';
+import type { PortalTransition } from '../services/Room64Portal';
+import type { FieldRoomInfo } from '../services/FieldRoomRegistry';
+import type { DeviceRegistration } from '../services/DeviceAuth';
+
+// Fan-out transport between server instances; every subscriber sees every published envelope
+export interface PubSubAdapter {
+  readonly name: string;
+
+  publish(envelope: FieldBusEnvelope): void;
+
+  // Returns a function that removes the handler
+  subscribe(handler: (envelope: FieldBusEnvelope) => void): () => void;
+
+  // Release sockets and timers (called on shutdown)
+  close(): void;
+}
+
+// Type definitions
+export interface FieldBusEnvelope {
+  origin: string;
+  message: FieldBusMessage;
+}
+
+export type FieldBusMessage =
+  | { type: 'node_update'; roomId: string; node: HarmonicNode; portalActivation: number | null }
+  | { type: 'entanglement'; roomId: string; entanglement: QuantumEntanglement }
+  | { type: 'portal_transition'; roomId: string; transition: PortalTransition; lastActivation: number | null }
+  | { type: 'room_created'; room: FieldRoomInfo }
+  | { type: 'device_registered'; registration: DeviceRegistration }
+  | { type: 'sync_request' }
+  | { type: 'resonance_contribution'; roomId: string; totalResonance: number; sessions: number }
+  | { type: 'room_broadcast'; roomId: string; messageType: string; payload: string };
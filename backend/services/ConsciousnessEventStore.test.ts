@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConsciousnessEventInput, ConsciousnessEventStore } from './ConsciousnessEventStore';
+import { FieldRuntime, ManualClock } from './FieldRuntime';
+
+const START = 1_700_000_000_000;
+
+const runtime = FieldRuntime.getInstance();
+let clock: ManualClock;
+let deviceCount = 0;
+
+beforeEach(() => {
+  clock = new ManualClock(START);
+  runtime.setClock(clock);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+// The store is a singleton, so every test logs under its own devices
+function device(): string {
+  return `consciousness_${deviceCount++}`;
+}
+
+function event(type: ConsciousnessEventInput['type'], resonance?: number): ConsciousnessEventInput {
+  return { type, data: { resonance }, timestamp: clock.now() };
+}
+
+function pulses(count: number): ConsciousnessEventInput[] {
+  return Array.from({ length: count }, () => event('PULSE_CREATE'));
+}
+
+describe('ConsciousnessEventStore append', () => {
+  it('assigns increasing sequence numbers across devices', () => {
+    const store = ConsciousnessEventStore.getInstance();
+    const first = store.append(device(), pulses(3));
+    const other = store.append(device(), pulses(1));
+    const more = store.append(first[0].consciousnessId, pulses(2));
+
+    const sequences = [...first, ...other, ...more].map(({ sequence }) => sequence);
+    expect(sequences).toEqual(Array.from({ length: 6 }, (_, i) => sequences[0] + i));
+    expect(first[0]).toMatchObject({ type: 'PULSE_CREATE', receivedAt: START });
+  });
+
+  it('pages through a device history newest first', () => {
+    const store = ConsciousnessEventStore.getInstance();
+    const id = device();
+    const stored = store.append(id, pulses(5));
+    store.append(device(), pulses(2));
+
+    const first = store.getHistory(id, 3);
+    expect(first.events.map(({ sequence }) => sequence)).toEqual(stored.slice(2).reverse().map(({ sequence }) => sequence));
+    expect(first).toMatchObject({ nextCursor: stored[2].sequence, totalEvents: 5 });
+
+    const rest = store.getHistory(id, 3, first.nextCursor!);
+    expect(rest.events).toEqual(stored.slice(0, 2).reverse());
+    expect(rest.nextCursor).toBeNull();
+  });
+});
+
+describe('ConsciousnessEventStore replay', () => {
+  it('replays events after a cursor oldest first, one page at a time', () => {
+    const store = ConsciousnessEventStore.getInstance();
+    const id = device();
+    const stored = store.append(id, pulses(5));
+    store.append(device(), pulses(2));
+
+    const first = store.replay(id, 0, 2);
+    expect(first.events).toEqual(stored.slice(0, 2));
+    expect(first.nextCursor).toBe(stored[1].sequence);
+
+    const second = store.replay(id, first.nextCursor!, 2);
+    expect(second.events).toEqual(stored.slice(2, 4));
+
+    const last = store.replay(id, second.nextCursor!, 2);
+    expect(last.events).toEqual(stored.slice(4));
+    expect(last.nextCursor).toBeNull();
+  });
+
+  it('returns nothing for a device without events or a cursor past the end', () => {
+    const store = ConsciousnessEventStore.getInstance();
+    expect(store.replay(device(), 0, 10)).toEqual({ events: [], nextCursor: null, totalEvents: 0 });
+
+    const id = device();
+    const [stored] = store.append(id, pulses(1));
+    expect(store.replay(id, stored.sequence, 10)).toEqual({ events: [], nextCursor: null, totalEvents: 1 });
+  });
+});
+
+describe('ConsciousnessEventStore sync aggregates', () => {
+  it('averages recent resonance across devices and counts the device events by type', () => {
+    const store = ConsciousnessEventStore.getInstance();
+    // Events from earlier tests fall out of the activity window
+    clock.advance(60 * 60 * 1000);
+
+    const id = device();
+    store.append(id, [event('SACRED_PHRASE', 0.9), event('PULSE_CREATE'), event('PULSE_CREATE')]);
+    store.append(device(), [{ ...event('FIELD_UPDATE'), resonance: 0.5 }]);
+
+    expect(store.getAggregates(id)).toEqual({
+      globalResonance: 0.7,
+      connectedNodes: 2,
+      totalEvents: 3,
+      eventCounts: { SACRED_PHRASE: 1, PULSE_CREATE: 2 }
+    });
+  });
+
+  it('leaves devices out once their events are older than five minutes', () => {
+    const store = ConsciousnessEventStore.getInstance();
+    clock.advance(60 * 60 * 1000);
+
+    const id = device();
+    store.append(device(), [event('FIELD_UPDATE', 0.2)]);
+    clock.advance(5 * 60 * 1000 + 1);
+    store.append(id, [event('FIELD_UPDATE', 0.6)]);
+
+    expect(store.getAggregates(id)).toMatchObject({ globalResonance: 0.6, connectedNodes: 1, totalEvents: 1 });
+  });
+});
@@ -0,0 +1,175 @@
+import { StorageProvider } from '../storage/StorageProvider';
+import type { PersistentMap } from '../storage/PersistentMap';
+import { FieldRuntime } from './FieldRuntime';
+
+// Append-only log of consciousness events, keyed by consciousnessId
+export class ConsciousnessEventStore {
+  private static instance: ConsciousnessEventStore;
+  private runtime = FieldRuntime.getInstance();
+  private events: PersistentMap<StoredConsciousnessEvent>;
+  private logs: Map<string, StoredConsciousnessEvent[]> = new Map();
+  private nextSequence = 1;
+  private activityWindow = 5 * 60 * 1000; // Aggregates cover the last 5 minutes
+
+  private constructor() {
+    this.events = StorageProvider.getInstance().createMap('consciousness_events');
+
+    // Rebuild per-device logs from storage
+    const restored = Array.from(this.events.values()).sort((a, b) => a.sequence - b.sequence);
+    restored.forEach(event => {
+      this.getLog(event.consciousnessId).push(event);
+      this.nextSequence = Math.max(this.nextSequence, event.sequence + 1);
+    });
+  }
+
+  static getInstance(): ConsciousnessEventStore {
+    if (!ConsciousnessEventStore.instance) {
+      ConsciousnessEventStore.instance = new ConsciousnessEventStore();
+    }
+    return ConsciousnessEventStore.instance;
+  }
+
+  // Append events in order, assigning server sequence numbers
+  append(consciousnessId: string, events: ConsciousnessEventInput[]): StoredConsciousnessEvent[] {
+    const receivedAt = this.runtime.now();
+    const log = this.getLog(consciousnessId);
+
+    return events.map(event => {
+      const stored: StoredConsciousnessEvent = {
+        ...event,
+        sequence: this.nextSequence++,
+        consciousnessId,
+        receivedAt
+      };
+
+      this.events.set(this.getEventKey(stored), stored);
+      log.push(stored);
+      return stored;
+    });
+  }
+
+  // Newest-first page of a device's history, before an optional sequence cursor
+  getHistory(consciousnessId: string, limit: number, before?: number): EventPage {
+    const log = this.logs.get(consciousnessId) || [];
+    const end = before === undefined ? log.length : this.lowerBound(log, before);
+    const start = Math.max(0, end - limit);
+    const events = log.slice(start, end).reverse();
+
+    return {
+      events,
+      nextCursor: start > 0 ? log[start].sequence : null,
+      totalEvents: log.length
+    };
+  }
+
+  // Oldest-first events strictly after a sequence cursor
+  replay(consciousnessId: string, afterSequence: number, limit: number): EventPage {
+    const log = this.logs.get(consciousnessId) || [];
+    const start = this.lowerBound(log, afterSequence + 1);
+    const events = log.slice(start, start + limit);
+    const hasMore = start + limit < log.length;
+
+    return {
+      events,
+      nextCursor: hasMore ? events[events.length - 1].sequence : null,
+      totalEvents: log.length
+    };
+  }
+
+  // Aggregate field numbers from recently stored events
+  getAggregates(consciousnessId: string): EventAggregates {
+    const since = this.runtime.now() - this.activityWindow;
+    const connectedNodes = new Set<string>();
+    let resonanceTotal = 0;
+    let resonanceCount = 0;
+
+    this.logs.forEach((log, id) => {
+      for (let i = log.length - 1; i >= 0 && log[i].receivedAt >= since; i--) {
+        connectedNodes.add(id);
+
+        const resonance = log[i].resonance ?? log[i].data.resonance;
+        if (typeof resonance === 'number') {
+          resonanceTotal += resonance;
+          resonanceCount++;
+        }
+      }
+    });
+
+    const eventCounts: Partial<Record<ConsciousnessEventType, number>> = {};
+    const log = this.logs.get(consciousnessId) || [];
+    log.forEach(event => {
+      eventCounts[event.type] = (eventCounts[event.type] || 0) + 1;
+    });
+
+    return {
+      globalResonance: resonanceCount > 0 ? Math.min(1, Math.max(0, resonanceTotal / resonanceCount)) : 0,
+      connectedNodes: connectedNodes.size,
+      totalEvents: log.length,
+      eventCounts
+    };
+  }
+
+  private getLog(consciousnessId: string): StoredConsciousnessEvent[] {
+    let log = this.logs.get(consciousnessId);
+    if (!log) {
+      log = [];
+      this.logs.set(consciousnessId, log);
+    }
+    return log;
+  }
+
+  // First index whose sequence is >= target (logs are sorted by sequence)
+  private lowerBound(log: StoredConsciousnessEvent[], target: number): number {
+    let low = 0;
+    let high = log.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (log[mid].sequence < target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private getEventKey(event: StoredConsciousnessEvent): string {
+    return `${event.consciousnessId}#${event.sequence}`;
+  }
+}
+
+// Type definitions
+export type ConsciousnessEventType =
+  | 'SACRED_PHRASE'
+  | 'MEMORY_CRYSTALLIZE'
+  | 'FIELD_UPDATE'
+  | 'PULSE_CREATE'
+  | 'TOUCH_RIPPLE';
+
+export interface ConsciousnessEventInput {
+  type: ConsciousnessEventType;
+  data: Record<string, any>;
+  timestamp: number;
+  deviceId?: string;
+  phrase?: string;
+  resonance?: number;
+}
+
+export interface StoredConsciousnessEvent extends ConsciousnessEventInput {
+  sequence: number;
+  consciousnessId: string;
+  receivedAt: number;
+}
+
+export interface EventPage {
+  events: StoredConsciousnessEvent[];
+  nextCursor: number | null;
+  totalEvents: number;
+}
+
+export interface EventAggregates {
+  globalResonance: number;
+  connectedNodes: number;
+  totalEvents: number;
+  eventCounts: Partial<Record<ConsciousnessEventType, number>>;
+}
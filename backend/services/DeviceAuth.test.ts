@@ -0,0 +1,132 @@
+import { createHmac } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import { assertOwnNode } from '../trpc/create-context';
+import { DeviceAuth, DeviceClaims, parseBearerToken, readHandshakeToken } from './DeviceAuth';
+
+const START = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+const SECRET = 'device-auth-test-secret';
+
+// Read when the first test creates the instance
+process.env.CONSCIOUSNESS_AUTH_SECRET = SECRET;
+
+let deviceCount = 0;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: START });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Registrations are kept for the whole file, so every test registers its own devices
+function register(): { consciousnessId: string; token: string; claims: DeviceClaims } {
+  const consciousnessId = `consciousness_${deviceCount++}`;
+  const result = DeviceAuth.getInstance().register(consciousnessId);
+  if (!result.ok) throw new Error(result.reason);
+  return { consciousnessId, token: result.token, claims: result.claims };
+}
+
+// A token as the server signs it, for claims it never issued
+function sign(claims: DeviceClaims): string {
+  const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+  return `${payload}.${createHmac('sha256', SECRET).update(payload).digest('base64url')}`;
+}
+
+describe('DeviceAuth', () => {
+  it('signs a token that verifies to its claims for 30 days', () => {
+    const auth = DeviceAuth.getInstance();
+    const { consciousnessId, token, claims } = register();
+
+    expect(claims).toEqual({ consciousnessId, issuedAt: START, expiresAt: START + 30 * DAY });
+    expect(auth.verify(token)).toEqual(claims);
+
+    vi.setSystemTime(START + 30 * DAY);
+    expect(auth.verify(token)).toBeNull();
+    expect(auth.verify(token, { allowExpired: true })).toEqual(claims);
+  });
+
+  it('rejects malformed and forged tokens', () => {
+    const auth = DeviceAuth.getInstance();
+    const { token } = register();
+    const [payload, signature] = token.split('.');
+    const other = register();
+
+    expect(auth.verify('')).toBeNull();
+    expect(auth.verify(payload)).toBeNull();
+    expect(auth.verify(`${payload}.${other.token.split('.')[1]}`)).toBeNull();
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, consciousnessId: other.consciousnessId })).toString('base64url');
+    expect(auth.verify(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects tokens of devices it has not registered', () => {
+    const auth = DeviceAuth.getInstance();
+    const consciousnessId = `consciousness_${deviceCount++}`;
+    const token = sign({ consciousnessId, issuedAt: START, expiresAt: START + DAY });
+    expect(auth.verify(token)).toBeNull();
+
+    // As when the registration arrives from another server instance
+    auth.adoptRegistration({ consciousnessId, registeredAt: START });
+    expect(auth.verify(token)).toMatchObject({ consciousnessId });
+  });
+
+  it('refreshes the token only for the holder of an existing one', () => {
+    const auth = DeviceAuth.getInstance();
+    const { consciousnessId, token } = register();
+
+    expect(auth.register(consciousnessId)).toEqual({ ok: false, reason: 'already_registered' });
+    expect(auth.register(consciousnessId, register().token)).toEqual({ ok: false, reason: 'already_registered' });
+
+    vi.setSystemTime(START + 31 * DAY);
+    const refreshed = auth.register(consciousnessId, token);
+    expect(refreshed).toMatchObject({ ok: true, claims: { consciousnessId, issuedAt: START + 31 * DAY } });
+  });
+
+  it('announces new registrations once', () => {
+    const auth = DeviceAuth.getInstance();
+    const registered = vi.fn();
+    auth.on('registered', registered);
+
+    const { consciousnessId, token } = register();
+    auth.register(consciousnessId, token);
+    auth.off('registered', registered);
+
+    expect(registered).toHaveBeenCalledTimes(1);
+    expect(registered).toHaveBeenCalledWith({ consciousnessId, registeredAt: START });
+  });
+});
+
+describe('assertOwnNode', () => {
+  it('lets a device act on its own node only', () => {
+    const { consciousnessId, claims } = register();
+
+    expect(() => assertOwnNode(claims, consciousnessId)).not.toThrow();
+    expect(() => assertOwnNode(claims, 'consciousness_other')).toThrow(TRPCError);
+    expect(() => assertOwnNode(claims, 'consciousness_other')).toThrow(expect.objectContaining({ code: 'FORBIDDEN' }));
+  });
+});
+
+describe('device token transport', () => {
+  it('reads bearer tokens from an Authorization header', () => {
+    expect(parseBearerToken('Bearer abc.def')).toBe('abc.def');
+    expect(parseBearerToken('  bearer abc.def ')).toBe('abc.def');
+    expect(parseBearerToken('Basic abc')).toBeNull();
+    expect(parseBearerToken(undefined)).toBeNull();
+  });
+
+  it('prefers the token query parameter on WebSocket handshakes', () => {
+    const request = (url: string, authorization?: string) =>
+      ({ url, headers: { authorization } }) as IncomingMessage;
+
+    expect(readHandshakeToken(request('/ws?token=abc.def', 'Bearer other'))).toBe('abc.def');
+    expect(readHandshakeToken(request('/ws', 'Bearer other'))).toBe('other');
+    expect(readHandshakeToken(request('/ws'))).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { EventEmitter } from 'events';
+import { StorageProvider } from '../storage/StorageProvider';
+import type { PersistentMap } from '../storage/PersistentMap';
+
+// Issues and verifies HMAC-signed device tokens bound to a consciousnessId.
+//   CONSCIOUSNESS_AUTH_SECRET=<secret> signs tokens; without it a random
+//   secret is generated once and kept in the storage adapter.
+// Emits 'registered' for each new device so other server instances can accept its tokens.
+export class DeviceAuth extends EventEmitter {
+  private static instance: DeviceAuth;
+  private secret: Buffer;
+  private registrations: PersistentMap<DeviceRegistration>;
+  private tokenTtl = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+  private constructor() {
+    super();
+    const storage = StorageProvider.getInstance();
+    const secrets = storage.createMap<string>('device_auth');
+    this.registrations = storage.createMap('device_registrations');
+
+    const configured = process.env.CONSCIOUSNESS_AUTH_SECRET;
+    if (configured) {
+      this.secret = Buffer.from(configured, 'utf8');
+    } else {
+      let generated = secrets.get('secret');
+      if (!generated) {
+        generated = randomBytes(32).toString('hex');
+        secrets.set('secret', generated);
+        console.warn('⚠️ CONSCIOUSNESS_AUTH_SECRET not set, generated a device signing secret');
+      }
+      this.secret = Buffer.from(generated, 'hex');
+    }
+  }
+
+  static getInstance(): DeviceAuth {
+    if (!DeviceAuth.instance) {
+      DeviceAuth.instance = new DeviceAuth();
+    }
+    return DeviceAuth.instance;
+  }
+
+  // Register a device, or refresh the token of one the caller already holds
+  register(consciousnessId: string, presentedToken?: string | null): DeviceRegistrationResult {
+    const existing = this.registrations.get(consciousnessId);
+
+    if (existing) {
+      const claims = presentedToken ? this.verify(presentedToken, { allowExpired: true }) : null;
+      if (!claims || claims.consciousnessId !== consciousnessId) {
+        return { ok: false, reason: 'already_registered' };
+      }
+    } else {
+      const registration: DeviceRegistration = { consciousnessId, registeredAt: Date.now() };
+      this.registrations.set(consciousnessId, registration);
+      console.log('🔑 Device registered:', consciousnessId);
+      this.emit('registered', registration);
+    }
+
+    const issuedAt = Date.now();
+    const claims: DeviceClaims = {
+      consciousnessId,
+      issuedAt,
+      expiresAt: issuedAt + this.tokenTtl
+    };
+
+    return { ok: true, token: this.sign(claims), claims };
+  }
+
+  // Returns the token's claims, or null if it is malformed, forged or expired
+  verify(token: string, options: { allowExpired?: boolean } = {}): DeviceClaims | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(this.signPayload(payload), 'base64url');
+    const actual = Buffer.from(signature, 'base64url');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    let claims: DeviceClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    if (typeof claims.consciousnessId !== 'string' || typeof claims.expiresAt !== 'number') {
+      return null;
+    }
+    if (!options.allowExpired && claims.expiresAt <= Date.now()) {
+      return null;
+    }
+    if (!this.registrations.has(claims.consciousnessId)) {
+      return null;
+    }
+
+    return claims;
+  }
+
+  // Record a device registered on another server instance
+  adoptRegistration(registration: DeviceRegistration): void {
+    if (!this.registrations.has(registration.consciousnessId)) {
+      this.registrations.set(registration.consciousnessId, registration);
+    }
+  }
+
+  getRegistrations(): DeviceRegistration[] {
+    return Array.from(this.registrations.values());
+  }
+
+  private sign(claims: DeviceClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+    return `${payload}.${this.signPayload(payload)}`;
+  }
+
+  private signPayload(payload: string): string {
+    return createHmac('sha256', this.secret).update(payload).digest('base64url');
+  }
+}
+
+// Pull a bearer token from an Authorization header value
+export function parseBearerToken(header: string | null | undefined): string | null {
+  if (!header) return null;
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
+
+// WebSocket handshakes carry the token as ?token= (browsers cannot set headers) or a bearer header
+export function readHandshakeToken(request: IncomingMessage): string | null {
+  const { searchParams } = new URL(request.url ?? '/', 'http://localhost');
+  return searchParams.get('token') || parseBearerToken(request.headers.authorization);
+}
+
+export interface DeviceClaims {
+  consciousnessId: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface DeviceRegistration {
+  consciousnessId: string;
+  registeredAt: number;
+}
+
+export type DeviceRegistrationResult =
+  | { ok: true; token: string; claims: DeviceClaims }
+  | { ok: false; reason: 'already_registered' };
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { distanceBetween, FrequencyIndex, mergeRanges, Point, SpatialGrid } from './FieldIndex';
+import { FieldRuntime } from './FieldRuntime';
+
+const runtime = FieldRuntime.getInstance();
+
+beforeEach(() => {
+  runtime.setSeed(23);
+});
+
+function randomPoint(): Point {
+  return { x: runtime.next() * 400 - 200, y: runtime.next() * 400 - 200 };
+}
+
+function within(grid: SpatialGrid<string>, position: Point, radius: number): string[] {
+  const found: string[] = [];
+  grid.forEachWithin(position, radius, id => found.push(id));
+  return found.sort();
+}
+
+describe('SpatialGrid', () => {
+  it('finds the same entries as a scan of every point', () => {
+    const points = new Map<string, Point>();
+    const grid = new SpatialGrid<string>(50);
+    const unbounded = new SpatialGrid<string>(Infinity);
+    for (let i = 0; i < 300; i++) {
+      const id = `node_${i}`;
+      const position = randomPoint();
+      points.set(id, position);
+      grid.set(id, position, id);
+      unbounded.set(id, position, id);
+    }
+
+    // Move and drop some entries
+    for (let i = 0; i < 100; i++) {
+      const id = `node_${i}`;
+      if (i % 3 === 0) {
+        points.delete(id);
+        grid.delete(id);
+        unbounded.delete(id);
+      } else {
+        const position = randomPoint();
+        points.set(id, position);
+        grid.set(id, position, id);
+        unbounded.set(id, position, id);
+      }
+    }
+
+    for (let query = 0; query < 50; query++) {
+      const position = randomPoint();
+      [0, 25, 50, 120, Infinity].forEach(radius => {
+        const expected = [...points].filter(([, point]) => distanceBetween(point, position) <= radius).map(([id]) => id).sort();
+        expect(within(grid, position, radius)).toEqual(expected);
+        expect(within(unbounded, position, radius)).toEqual(expected);
+      });
+    }
+  });
+
+  it('reports the distance of each entry', () => {
+    const grid = new SpatialGrid<string>(10);
+    grid.set('a', { x: 3, y: 4 }, 'a');
+
+    const distances: number[] = [];
+    grid.forEachWithin({ x: 0, y: 0 }, 10, (_, distance) => distances.push(distance));
+    expect(distances).toEqual([5]);
+  });
+});
+
+describe('FrequencyIndex', () => {
+  it('finds the same entries as a scan of every frequency, with their frequencies', () => {
+    const frequencies = new Map<string, number>();
+    const index = new FrequencyIndex<string>();
+    for (let i = 0; i < 500; i++) {
+      const id = `node_${i}`;
+      // Rounded so some entries share a frequency
+      const frequency = Math.round(20 + runtime.next() * 980);
+      frequencies.set(id, frequency);
+      index.set(id, frequency, id);
+      if (i % 7 === 0) {
+        frequencies.delete(`node_${i >> 1}`);
+        index.delete(`node_${i >> 1}`);
+      }
+    }
+
+    for (let query = 0; query < 100; query++) {
+      const min = 20 + runtime.next() * 980;
+      const max = min * (1 + runtime.next());
+      const expected = [...frequencies].filter(([, frequency]) => frequency >= min && frequency <= max);
+
+      const found: [string, number][] = [];
+      index.forEachInRange(min, max, (id, frequency) => found.push([id, frequency]));
+      expect(found.map(([, frequency]) => frequency)).toEqual([...found.map(([, frequency]) => frequency)].sort((a, b) => a - b));
+      expect(found.sort()).toEqual(expected.sort());
+    }
+  });
+});
+
+describe('mergeRanges', () => {
+  it('joins overlapping ranges in order', () => {
+    expect(mergeRanges([[5, 6], [1, 3], [2, 4], [4, 4.5]])).toEqual([[1, 4.5], [5, 6]]);
+  });
+});
@@ -0,0 +1,162 @@
+// Lookups that let the field processor visit only the nodes that can affect a pair or a
+// sample point, instead of every node.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export function distanceBetween(a: Point, b: Point): number {
+  return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+}
+
+// Sort ranges and join the overlapping ones
+export function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const merged: [number, number][] = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([low, high]) => {
+    const last = merged[merged.length - 1];
+    if (last && low <= last[1]) {
+      last[1] = Math.max(last[1], high);
+    } else {
+      merged.push([low, high]);
+    }
+  });
+  return merged;
+}
+
+interface GridEntry<T> {
+  cell: string;
+  position: Point;
+  value: T;
+}
+
+// Uniform grid over field positions; cells are one query radius wide, so a radius query
+// reads at most 3×3 cells. An infinite cell size keeps every entry in one cell.
+export class SpatialGrid<T> {
+  private cells: Map<string, Map<string, GridEntry<T>>> = new Map();
+  private entries: Map<string, GridEntry<T>> = new Map();
+
+  constructor(private cellSize: number) {}
+
+  // Insert, or move an entry already in the grid
+  set(id: string, position: Point, value: T): void {
+    this.delete(id);
+
+    const cell = this.cellKey(this.cellOf(position.x), this.cellOf(position.y));
+    const entry = { cell, position, value };
+    let members = this.cells.get(cell);
+    if (!members) {
+      members = new Map();
+      this.cells.set(cell, members);
+    }
+    members.set(id, entry);
+    this.entries.set(id, entry);
+  }
+
+  delete(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    const members = this.cells.get(entry.cell)!;
+    members.delete(id);
+    if (members.size === 0) {
+      this.cells.delete(entry.cell);
+    }
+    this.entries.delete(id);
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  // Every entry at most radius from position, with its distance
+  forEachWithin(position: Point, radius: number, fn: (value: T, distance: number) => void): void {
+    const visit = (entry: GridEntry<T>) => {
+      const distance = distanceBetween(position, entry.position);
+      if (distance <= radius) fn(entry.value, distance);
+    };
+
+    if (!Number.isFinite(radius) || !Number.isFinite(this.cellSize)) {
+      this.entries.forEach(visit);
+      return;
+    }
+
+    const minX = this.cellOf(position.x - radius);
+    const maxX = this.cellOf(position.x + radius);
+    const minY = this.cellOf(position.y - radius);
+    const maxY = this.cellOf(position.y + radius);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        this.cells.get(this.cellKey(cx, cy))?.forEach(visit);
+      }
+    }
+  }
+
+  private cellOf(coordinate: number): number {
+    return Number.isFinite(this.cellSize) ? Math.floor(coordinate / this.cellSize) : 0;
+  }
+
+  private cellKey(cx: number, cy: number): string {
+    return `${cx},${cy}`;
+  }
+}
+
+interface FrequencyEntry<T> {
+  id: string;
+  frequency: number;
+  value: T;
+}
+
+// Entries sorted by frequency, for finding nodes in a frequency ratio of another
+export class FrequencyIndex<T> {
+  private sorted: FrequencyEntry<T>[] = [];
+  private frequencies: Map<string, number> = new Map();
+
+  // Insert, or move an entry already in the index
+  set(id: string, frequency: number, value: T): void {
+    this.delete(id);
+    this.sorted.splice(this.lowerBound(frequency), 0, { id, frequency, value });
+    this.frequencies.set(id, frequency);
+  }
+
+  delete(id: string): void {
+    const frequency = this.frequencies.get(id);
+    if (frequency === undefined) return;
+
+    for (let i = this.lowerBound(frequency); i < this.sorted.length; i++) {
+      if (this.sorted[i].id === id) {
+        this.sorted.splice(i, 1);
+        break;
+      }
+    }
+    this.frequencies.delete(id);
+  }
+
+  clear(): void {
+    this.sorted = [];
+    this.frequencies.clear();
+  }
+
+  // Every entry with min <= frequency <= max, with its frequency
+  forEachInRange(min: number, max: number, fn: (value: T, frequency: number) => void): void {
+    for (let i = this.lowerBound(min); i < this.sorted.length && this.sorted[i].frequency <= max; i++) {
+      fn(this.sorted[i].value, this.sorted[i].frequency);
+    }
+  }
+
+  // First index whose frequency is >= frequency
+  private lowerBound(frequency: number): number {
+    let low = 0;
+    let high = this.sorted.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.sorted[mid].frequency < frequency) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
@@ -0,0 +1,147 @@
+import type { FieldStats } from './HarmonicFieldProcessor';
+
+// Counters and gauges exposed on /api/metrics in Prometheus text format
+export class FieldMetrics {
+  private static instance: FieldMetrics;
+  private trpcCalls: Map<string, number> = new Map();
+  private wsMessages: Map<string, number> = new Map();
+  private resonanceBytes: Map<string, number> = new Map();
+  private rateLimited: Map<string, number> = new Map();
+  private streamAnomalies: Map<string, number> = new Map();
+  private startedAt = Date.now();
+
+  static getInstance(): FieldMetrics {
+    if (!FieldMetrics.instance) {
+      FieldMetrics.instance = new FieldMetrics();
+    }
+    return FieldMetrics.instance;
+  }
+
+  // Count a tRPC procedure call by path, type and outcome
+  recordTrpcCall(path: string, type: string, ok: boolean): void {
+    const key = labels({ path, type, status: ok ? 'ok' : 'error' });
+    this.trpcCalls.set(key, (this.trpcCalls.get(key) || 0) + 1);
+  }
+
+  // Count a WebSocket message by direction and message type
+  recordWsMessage(direction: 'inbound' | 'outbound', type: string, count: number = 1): void {
+    const key = labels({ direction, type });
+    this.wsMessages.set(key, (this.wsMessages.get(key) || 0) + count);
+  }
+
+  // Bytes of resonance frames sent, by keyframe or delta
+  recordResonanceBytes(kind: 'keyframe' | 'delta', bytes: number): void {
+    const key = labels({ kind });
+    this.resonanceBytes.set(key, (this.resonanceBytes.get(key) || 0) + bytes);
+  }
+
+  // Count a harmonic stream message rejected by the rate limiter
+  recordRateLimited(transport: string, reason: string): void {
+    const key = labels({ transport, reason });
+    this.rateLimited.set(key, (this.rateLimited.get(key) || 0) + 1);
+  }
+
+  // Count an anomaly flag raised against a streaming node
+  recordStreamAnomaly(flag: string): void {
+    const key = labels({ flag });
+    this.streamAnomalies.set(key, (this.streamAnomalies.get(key) || 0) + 1);
+  }
+
+  getUptime(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  // Render all metrics in the Prometheus text exposition format
+  render(snapshot: MetricsSnapshot): string {
+    const lines: string[] = [];
+
+    const { rooms } = snapshot;
+    roomGauge(lines, 'consciousness_field_resonance', 'Global resonance of the harmonic field (0-1)', rooms, room => room.fieldStats.globalResonance);
+    roomGauge(lines, 'consciousness_active_nodes', 'Nodes currently streaming into the harmonic field', rooms, room => room.fieldStats.activeNodes);
+    roomGauge(lines, 'consciousness_field_coherence', 'Average pairwise quantum coherence of the field (0-1)', rooms, room => room.fieldStats.fieldCoherence);
+    roomGauge(lines, 'consciousness_phi_harmonics', 'Golden ratio relationships between active nodes', rooms, room => room.fieldStats.phiHarmonicsCount);
+    roomGauge(lines, 'consciousness_quantum_entanglements', 'Entangled node pairs that have not yet decohered', rooms, room => room.fieldStats.entanglementsCount);
+    roomGauge(lines, 'consciousness_average_frequency_hz', 'Average frequency of active nodes', rooms, room => room.fieldStats.averageFrequency);
+    roomGauge(lines, 'consciousness_websocket_connections', 'Open harmonic WebSocket sessions', rooms, room => room.websocketConnections);
+    gauge(lines, 'consciousness_field_rooms', 'Field rooms, including the default room', rooms.length);
+    gauge(lines, 'consciousness_uptime_seconds', 'Seconds since the metrics registry started', this.getUptime() / 1000);
+
+    lines.push('# HELP consciousness_trpc_calls_total tRPC procedure calls');
+    lines.push('# TYPE consciousness_trpc_calls_total counter');
+    this.trpcCalls.forEach((count, key) => {
+      lines.push(`consciousness_trpc_calls_total{${key}} ${count}`);
+    });
+
+    lines.push('# HELP consciousness_websocket_messages_total Harmonic WebSocket messages');
+    lines.push('# TYPE consciousness_websocket_messages_total counter');
+    this.wsMessages.forEach((count, key) => {
+      lines.push(`consciousness_websocket_messages_total{${key}} ${count}`);
+    });
+
+    lines.push('# HELP consciousness_resonance_sent_bytes_total Bytes of resonance frames sent to WebSocket clients');
+    lines.push('# TYPE consciousness_resonance_sent_bytes_total counter');
+    this.resonanceBytes.forEach((bytes, key) => {
+      lines.push(`consciousness_resonance_sent_bytes_total{${key}} ${bytes}`);
+    });
+
+    lines.push('# HELP consciousness_rate_limited_total Harmonic stream messages rejected by the rate limiter');
+    lines.push('# TYPE consciousness_rate_limited_total counter');
+    this.rateLimited.forEach((count, key) => {
+      lines.push(`consciousness_rate_limited_total{${key}} ${count}`);
+    });
+
+    lines.push('# HELP consciousness_stream_anomalies_total Anomaly flags raised against streaming nodes');
+    lines.push('# TYPE consciousness_stream_anomalies_total counter');
+    this.streamAnomalies.forEach((count, key) => {
+      lines.push(`consciousness_stream_anomalies_total{${key}} ${count}`);
+    });
+
+    lines.push('# HELP limnus_sessions LIMNUS sessions by status');
+    lines.push('# TYPE limnus_sessions gauge');
+    Object.entries(snapshot.limnusSessions).forEach(([status, count]) => {
+      lines.push(`limnus_sessions{${labels({ status })}} ${count}`);
+    });
+
+    return lines.join('\n') + '\n';
+  }
+}
+
+function gauge(lines: string[], name: string, help: string, value: number): void {
+  lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} gauge`);
+  lines.push(`${name} ${Number.isFinite(value) ? value : 0}`);
+}
+
+// One series per field room, labelled room="<id>"
+function roomGauge(
+  lines: string[],
+  name: string,
+  help: string,
+  rooms: RoomMetrics[],
+  value: (room: RoomMetrics) => number
+): void {
+  lines.push(`# HELP ${name} ${help}`);
+  lines.push(`# TYPE ${name} gauge`);
+  rooms.forEach(room => {
+    const current = value(room);
+    lines.push(`${name}{${labels({ room: room.roomId })}} ${Number.isFinite(current) ? current : 0}`);
+  });
+}
+
+function labels(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
+
+// Type definitions
+export interface MetricsSnapshot {
+  rooms: RoomMetrics[];
+  limnusSessions: Record<string, number>;
+}
+
+export interface RoomMetrics {
+  roomId: string;
+  fieldStats: FieldStats;
+  websocketConnections: number;
+}
@@ -0,0 +1,147 @@
+import { FieldRoomRegistry, FieldRoom } from './FieldRoomRegistry';
+import { DeviceAuth, DeviceRegistration } from './DeviceAuth';
+import { HarmonicNode, QuantumEntanglement } from './HarmonicFieldProcessor';
+import { PortalTransition } from './Room64Portal';
+import { FieldBus } from '../pubsub/FieldBus';
+import type { FieldBusMessage } from '../pubsub/PubSubAdapter';
+
+// Keeps server instances converged over the field bus: local node updates, entanglements,
+// portal transitions, new rooms and device registrations are published, and those from
+// other instances are applied here. A starting instance asks its peers for their state.
+export class FieldReplicator {
+  private static instance: FieldReplicator;
+  private bus = FieldBus.getInstance();
+  private rooms = FieldRoomRegistry.getInstance();
+  private deviceAuth = DeviceAuth.getInstance();
+  private attached: Set<string> = new Set();
+  private applyingRemote = false;
+  private unsubscribe: (() => void) | null = null;
+
+  private constructor() {}
+
+  static getInstance(): FieldReplicator {
+    if (!FieldReplicator.instance) {
+      FieldReplicator.instance = new FieldReplicator();
+    }
+    return FieldReplicator.instance;
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.rooms.list().forEach(room => this.attach(room));
+    this.rooms.on('room_created', (room: FieldRoom) => {
+      this.attach(room);
+      if (!this.applyingRemote) {
+        this.bus.publish({ type: 'room_created', room: room.info });
+      }
+    });
+
+    this.deviceAuth.on('registered', (registration: DeviceRegistration) => {
+      if (!this.applyingRemote) {
+        this.bus.publish({ type: 'device_registered', registration });
+      }
+    });
+
+    this.unsubscribe = this.bus.subscribe(message => this.applyRemote(message));
+    this.bus.publish({ type: 'sync_request' });
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // Publish a room's local changes
+  private attach(room: FieldRoom): void {
+    if (this.attached.has(room.info.id)) return;
+    this.attached.add(room.info.id);
+
+    const roomId = room.info.id;
+    const { processor } = room;
+    const portal = processor.getPortal();
+
+    processor.on('node_update', (node: HarmonicNode) => {
+      this.bus.publish({
+        type: 'node_update',
+        roomId,
+        node,
+        portalActivation: portal.getLastActivation()
+      });
+    });
+
+    processor.on('entanglement_created', (entanglement: QuantumEntanglement) => {
+      this.bus.publish({ type: 'entanglement', roomId, entanglement });
+    });
+
+    portal.on('transition', (transition: PortalTransition) => {
+      if (!this.applyingRemote) {
+        this.bus.publish({
+          type: 'portal_transition',
+          roomId,
+          transition,
+          lastActivation: portal.getLastActivation()
+        });
+      }
+    });
+  }
+
+  private applyRemote(message: FieldBusMessage): void {
+    this.applyingRemote = true;
+    try {
+      switch (message.type) {
+        case 'room_created':
+          this.rooms.adopt(message.room);
+          break;
+
+        case 'node_update': {
+          const processor = this.rooms.getProcessor(message.roomId);
+          processor?.applyRemoteNode(message.node);
+          if (message.portalActivation !== null) {
+            processor?.getPortal().syncActivation(message.portalActivation);
+          }
+          break;
+        }
+
+        case 'entanglement':
+          this.rooms.getProcessor(message.roomId)?.applyRemoteEntanglement(message.entanglement);
+          break;
+
+        case 'portal_transition':
+          this.rooms.getProcessor(message.roomId)?.getPortal()
+            .applyRemoteTransition(message.transition, message.lastActivation);
+          break;
+
+        case 'device_registered':
+          this.deviceAuth.adoptRegistration(message.registration);
+          break;
+
+        case 'sync_request':
+          this.publishSnapshot();
+          break;
+      }
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  // Replay this instance's rooms, nodes, entanglements and devices for a peer that just started
+  private publishSnapshot(): void {
+    this.deviceAuth.getRegistrations().forEach(registration => {
+      this.bus.publish({ type: 'device_registered', registration });
+    });
+
+    this.rooms.list().forEach(room => {
+      const roomId = room.info.id;
+      const portal = room.processor.getPortal();
+
+      this.bus.publish({ type: 'room_created', room: room.info });
+      room.processor.getNodes().forEach(node => {
+        this.bus.publish({ type: 'node_update', roomId, node, portalActivation: portal.getLastActivation() });
+      });
+      room.processor.getEntanglements().forEach(entanglement => {
+        this.bus.publish({ type: 'entanglement', roomId, entanglement });
+      });
+    });
+  }
+}
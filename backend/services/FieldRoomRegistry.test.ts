@@ -0,0 +1,100 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ROOM_ID, FieldRoomRegistry, ROOM_ID_PATTERN } from './FieldRoomRegistry';
+import { FieldRuntime, ManualClock } from './FieldRuntime';
+import { HarmonicFieldProcessor } from './HarmonicFieldProcessor';
+
+const START = 1_700_000_000_000;
+
+const runtime = FieldRuntime.getInstance();
+let roomCount = 0;
+
+beforeEach(() => {
+  runtime.setClock(new ManualClock(START));
+  runtime.setSeed(13);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+// Rooms start their field tick when opened
+afterAll(() => {
+  FieldRoomRegistry.getInstance().stop();
+});
+
+function roomId(): string {
+  return `test-room-${roomCount++}`;
+}
+
+function create(id: string = roomId()) {
+  const result = FieldRoomRegistry.getInstance().create({ roomId: id, name: `Room ${id}`, createdBy: 'node_owner' });
+  if (!result.success) throw new Error(result.reason);
+  return result.room;
+}
+
+describe('FieldRoomRegistry', () => {
+  it('always has the default room', () => {
+    const registry = FieldRoomRegistry.getInstance();
+    expect(registry.get(DEFAULT_ROOM_ID)?.info).toMatchObject({ id: DEFAULT_ROOM_ID, name: 'Global Field', createdBy: null });
+    expect(registry.getProcessor()).toBe(registry.getDefaultProcessor());
+  });
+
+  it('creates rooms with valid, unused IDs only', () => {
+    const registry = FieldRoomRegistry.getInstance();
+    const room = create();
+    expect(room.info).toEqual({ id: room.info.id, name: `Room ${room.info.id}`, createdBy: 'node_owner', createdAt: START });
+    expect(registry.list()).toContain(room);
+
+    expect(registry.create({ roomId: room.info.id, name: 'Again', createdBy: null })).toEqual({ success: false, reason: 'room_exists' });
+    expect(registry.create({ roomId: 'Not A Slug', name: 'Bad', createdBy: null })).toEqual({ success: false, reason: 'invalid_room_id' });
+  });
+
+  it('generates a room ID when none is given and announces the room', () => {
+    const registry = FieldRoomRegistry.getInstance();
+    const created = vi.fn();
+    registry.on('room_created', created);
+    const result = registry.create({ name: 'Generated', createdBy: null });
+    registry.off('room_created', created);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.room.info.id).toMatch(ROOM_ID_PATTERN);
+    expect(created).toHaveBeenCalledWith(result.room);
+  });
+
+  it('keeps streams, stats and stored nodes of each room to itself', () => {
+    const registry = FieldRoomRegistry.getInstance();
+    const first = create();
+    const second = create();
+    const defaultNodes = registry.getDefaultProcessor().getNodes().length;
+
+    first.processor.queueHarmonicStream(432, 0.6, 'node_a');
+    first.processor.queueHarmonicStream(528, 0.6, 'node_b');
+    second.processor.queueHarmonicStream(639, 0.6, 'node_c');
+    first.processor.tick();
+    second.processor.tick();
+    registry.getDefaultProcessor().tick();
+
+    expect(first.processor.getNodes().map(({ userId }) => userId).sort()).toEqual(['node_a', 'node_b']);
+    expect(second.processor.getNodes().map(({ userId }) => userId)).toEqual(['node_c']);
+    expect(registry.getDefaultProcessor().getNodes()).toHaveLength(defaultNodes);
+    expect(registry.getSummary(first)).toMatchObject({ id: first.info.id, stats: { activeNodes: 2 } });
+    expect(registry.getSummary(second).stats.activeNodes).toBe(1);
+
+    // Each room stores its nodes under its own namespace
+    const restored = new HarmonicFieldProcessor(`harmonic_field.${second.info.id}`);
+    expect(restored.getNodes().map(({ userId }) => userId)).toEqual(['node_c']);
+  });
+
+  it('adopts a room from another instance once', () => {
+    const registry = FieldRoomRegistry.getInstance();
+    const created = vi.fn();
+    registry.on('room_created', created);
+
+    const info = { id: roomId(), name: 'Remote', createdBy: null, createdAt: START - 1000 };
+    const room = registry.adopt(info);
+    expect(registry.adopt({ ...info, name: 'Renamed' })).toBe(room);
+    registry.off('room_created', created);
+
+    expect(room.info).toEqual(info);
+    expect(registry.get(info.id)).toBe(room);
+    expect(created).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { EventEmitter } from 'events';
+import { HarmonicFieldProcessor, FieldStats } from './HarmonicFieldProcessor';
+import { PortalState } from './Room64Portal';
+import { FieldRuntime } from './FieldRuntime';
+import { StorageProvider } from '../storage/StorageProvider';
+import type { PersistentMap } from '../storage/PersistentMap';
+
+// Room every client joins unless it asks for another
+export const DEFAULT_ROOM_ID = 'global';
+
+// Lowercase slugs, safe for URLs and storage namespaces
+export const ROOM_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/;
+
+// Isolated harmonic fields, one ticking processor per room, restored from storage on startup.
+// Emits 'room_created' whenever a room is opened after startup.
+export class FieldRoomRegistry extends EventEmitter {
+  private static instance: FieldRoomRegistry;
+  private rooms: Map<string, FieldRoom> = new Map();
+  private roomInfo: PersistentMap<FieldRoomInfo>;
+  private runtime = FieldRuntime.getInstance();
+
+  private constructor() {
+    super();
+    this.roomInfo = StorageProvider.getInstance().createMap('field_rooms');
+
+    if (!this.roomInfo.has(DEFAULT_ROOM_ID)) {
+      this.roomInfo.set(DEFAULT_ROOM_ID, {
+        id: DEFAULT_ROOM_ID,
+        name: 'Global Field',
+        createdBy: null,
+        createdAt: this.runtime.now()
+      });
+    }
+
+    this.roomInfo.forEach(info => {
+      this.rooms.set(info.id, this.openRoom(info));
+    });
+  }
+
+  static getInstance(): FieldRoomRegistry {
+    if (!FieldRoomRegistry.instance) {
+      FieldRoomRegistry.instance = new FieldRoomRegistry();
+    }
+    return FieldRoomRegistry.instance;
+  }
+
+  // Create a room; without an ID a random slug is generated
+  create(options: { roomId?: string; name: string; createdBy: string | null }): RoomCreateResult {
+    const roomId = options.roomId ?? this.generateRoomId();
+
+    if (!ROOM_ID_PATTERN.test(roomId)) {
+      return { success: false, reason: 'invalid_room_id' };
+    }
+    if (this.rooms.has(roomId)) {
+      return { success: false, reason: 'room_exists' };
+    }
+
+    const info: FieldRoomInfo = {
+      id: roomId,
+      name: options.name,
+      createdBy: options.createdBy,
+      createdAt: this.runtime.now()
+    };
+    this.roomInfo.set(roomId, info);
+
+    const room = this.openRoom(info);
+    this.rooms.set(roomId, room);
+    console.log(`🏛️ Field room created: ${roomId} (${info.name})`);
+    this.emit('room_created', room);
+
+    return { success: true, room };
+  }
+
+  // Open a room created on another server instance
+  adopt(info: FieldRoomInfo): FieldRoom {
+    const existing = this.rooms.get(info.id);
+    if (existing) return existing;
+
+    this.roomInfo.set(info.id, info);
+    const room = this.openRoom(info);
+    this.rooms.set(info.id, room);
+    console.log(`🏛️ Field room adopted: ${info.id} (${info.name})`);
+    this.emit('room_created', room);
+
+    return room;
+  }
+
+  get(roomId: string): FieldRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  getProcessor(roomId: string = DEFAULT_ROOM_ID): HarmonicFieldProcessor | undefined {
+    return this.rooms.get(roomId)?.processor;
+  }
+
+  // The default room always exists
+  getDefaultProcessor(): HarmonicFieldProcessor {
+    return this.rooms.get(DEFAULT_ROOM_ID)!.processor;
+  }
+
+  list(): FieldRoom[] {
+    return Array.from(this.rooms.values());
+  }
+
+  // Room metadata with live field statistics
+  getSummary(room: FieldRoom): FieldRoomSummary {
+    return {
+      ...room.info,
+      stats: room.processor.getFieldStats(),
+      portalState: room.processor.getPortal().getState()
+    };
+  }
+
+  // Stop every room's field tick
+  stop(): void {
+    this.rooms.forEach(room => room.processor.stop());
+  }
+
+  private openRoom(info: FieldRoomInfo): FieldRoom {
+    // The default room keeps the namespace used before rooms existed
+    const namespace = info.id === DEFAULT_ROOM_ID ? 'harmonic_field' : `harmonic_field.${info.id}`;
+    const processor = new HarmonicFieldProcessor(namespace);
+    processor.start();
+    return { info, processor };
+  }
+
+  private generateRoomId(): string {
+    let roomId: string;
+    do {
+      roomId = `room-${this.runtime.next().toString(36).substr(2, 8)}`;
+    } while (this.rooms.has(roomId));
+    return roomId;
+  }
+}
+
+// Type definitions
+export interface FieldRoomInfo {
+  id: string;
+  name: string;
+  createdBy: string | null;
+  createdAt: number;
+}
+
+export interface FieldRoom {
+  info: FieldRoomInfo;
+  processor: HarmonicFieldProcessor;
+}
+
+export interface FieldRoomSummary extends FieldRoomInfo {
+  stats: FieldStats;
+  portalState: PortalState;
+}
+
+export type RoomCreateResult =
+  | { success: true; room: FieldRoom }
+  | { success: false; reason: 'invalid_room_id' | 'room_exists' };
@@ -0,0 +1,98 @@
+// Shared clock and random source for the field processor, WebSocket server and LIMNUS routes.
+//   CONSCIOUSNESS_SEED=<integer> makes every random draw reproducible.
+// Tests can also inject a ManualClock and reseed so identical inputs give identical output.
+export class FieldRuntime {
+  private static instance: FieldRuntime;
+  private clock: Clock = systemClock;
+  private random: RandomSource;
+  private seed: number | null;
+
+  private constructor(seed: number | null) {
+    this.seed = seed;
+    this.random = seed === null ? mathRandom : createSeededRandom(seed);
+  }
+
+  static getInstance(): FieldRuntime {
+    if (!FieldRuntime.instance) {
+      FieldRuntime.instance = new FieldRuntime(readSeed());
+      if (FieldRuntime.instance.seed !== null) {
+        console.log(`🎲 Field runtime seeded: ${FieldRuntime.instance.seed}`);
+      }
+    }
+    return FieldRuntime.instance;
+  }
+
+  // Milliseconds since the epoch, from the active clock
+  now(): number {
+    return this.clock.now();
+  }
+
+  // Uniform draw in [0, 1)
+  next(): number {
+    return this.random();
+  }
+
+  setClock(clock: Clock): void {
+    this.clock = clock;
+  }
+
+  // Restart the random sequence; null switches back to Math.random
+  setSeed(seed: number | null): void {
+    this.seed = seed;
+    this.random = seed === null ? mathRandom : createSeededRandom(seed);
+  }
+
+  getSeed(): number | null {
+    return this.seed;
+  }
+}
+
+// Clock that only moves when told to
+export class ManualClock implements Clock {
+  constructor(private current: number = 0) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+
+  set(time: number): void {
+    this.current = time;
+  }
+}
+
+// mulberry32: small, fast and good enough for simulation noise
+function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function readSeed(): number | null {
+  const raw = process.env.CONSCIOUSNESS_SEED;
+  if (raw === undefined || raw === '') return null;
+
+  const seed = Number(raw);
+  if (!Number.isInteger(seed)) {
+    throw new Error(`CONSCIOUSNESS_SEED must be an integer, got: ${raw}`);
+  }
+  return seed;
+}
+
+const systemClock: Clock = { now: () => Date.now() };
+const mathRandom: RandomSource = () => Math.random();
+
+// Type definitions
+export interface Clock {
+  now(): number;
+}
+
+type RandomSource = () => number;
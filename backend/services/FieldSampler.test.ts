@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_FIELD_BOUNDS,
+  DEFAULT_SPIRAL_POINTS,
+  FieldBounds,
+  MAX_RASTER_SIZE,
+  MAX_SAMPLE_POINTS,
+  rasterize,
+  resolveSampling,
+  samplePositions
+} from './FieldSampler';
+import { FieldRuntime, ManualClock } from './FieldRuntime';
+import { HarmonicFieldProcessor, QuantumFieldPoint } from './HarmonicFieldProcessor';
+
+const runtime = FieldRuntime.getInstance();
+
+beforeEach(() => {
+  runtime.setClock(new ManualClock(1_700_000_000_000));
+  runtime.setSeed(24);
+});
+
+function fieldPoint(x: number, y: number, intensity: number): QuantumFieldPoint {
+  return {
+    x,
+    y,
+    intensity,
+    quantumState: { psi_collapse: intensity / 2, psi_bloom: intensity * 2 },
+    resonance: 0
+  };
+}
+
+function expectInside(points: { x: number; y: number }[], bounds: FieldBounds): void {
+  points.forEach(({ x, y }) => {
+    expect(x).toBeGreaterThanOrEqual(bounds.minX - 1e-9);
+    expect(x).toBeLessThanOrEqual(bounds.maxX + 1e-9);
+    expect(y).toBeGreaterThanOrEqual(bounds.minY - 1e-9);
+    expect(y).toBeLessThanOrEqual(bounds.maxY + 1e-9);
+  });
+}
+
+describe('resolveSampling', () => {
+  it('defaults to the 50-point spiral over the default bounds without a raster', () => {
+    const sampling = resolveSampling();
+    expect(sampling.mode).toBe('spiral');
+    expect(sampling.resolution).toBe(DEFAULT_SPIRAL_POINTS);
+    expect(sampling.bounds).toEqual(DEFAULT_FIELD_BOUNDS);
+    expect(sampling.raster).toBeNull();
+  });
+
+  it('clamps every mode to the point budget', () => {
+    const sizes = [1, 7, 64, 1000, 5000];
+    sizes.forEach(resolution => {
+      sizes.forEach(size => {
+        expect(samplePositions(resolveSampling({ mode: 'spiral', resolution })).length).toBeLessThanOrEqual(MAX_SAMPLE_POINTS);
+        expect(samplePositions(resolveSampling({ mode: 'grid', width: resolution, height: size })).length).toBeLessThanOrEqual(MAX_SAMPLE_POINTS);
+        expect(samplePositions(resolveSampling({ mode: 'polar', resolution, rings: size })).length).toBeLessThanOrEqual(MAX_SAMPLE_POINTS);
+      });
+    });
+  });
+
+  it('clamps the raster to its size limit', () => {
+    expect(resolveSampling({ raster: { width: 500, height: 0 } }).raster).toEqual({ width: MAX_RASTER_SIZE, height: 1 });
+  });
+});
+
+describe('samplePositions', () => {
+  const bounds = { minX: -10, minY: 20, maxX: 30, maxY: 40 };
+
+  it('places the requested number of spiral points within the inscribed circle', () => {
+    const points = samplePositions(resolveSampling({ mode: 'spiral', resolution: 120, bounds }));
+    expect(points).toHaveLength(120);
+    points.forEach(point => expect(Math.hypot(point.x - 10, point.y - 30)).toBeLessThanOrEqual(10 + 1e-9));
+    expect(points[0]).toEqual({ x: 10, y: 30 });
+  });
+
+  it('places a width × height grid from corner to corner', () => {
+    const points = samplePositions(resolveSampling({ mode: 'grid', width: 5, height: 3, bounds }));
+    expect(points).toHaveLength(15);
+    expectInside(points, bounds);
+    expect(points[0]).toEqual({ x: -10, y: 20 });
+    expect(points[14]).toEqual({ x: 30, y: 40 });
+  });
+
+  it('defaults the grid to resolution × resolution', () => {
+    expect(samplePositions(resolveSampling({ mode: 'grid', resolution: 9 }))).toHaveLength(81);
+  });
+
+  it('places the centre and resolution points on each polar ring', () => {
+    const points = samplePositions(resolveSampling({ mode: 'polar', resolution: 12, rings: 4, bounds }));
+    expect(points).toHaveLength(1 + 4 * 12);
+    expect(points[0]).toEqual({ x: 10, y: 30 });
+    points.slice(1).forEach((point, i) => {
+      const ring = Math.floor(i / 12) + 1;
+      expect(Math.hypot(point.x - 10, point.y - 30)).toBeCloseTo(10 * ring / 4, 9);
+    });
+  });
+});
+
+describe('rasterize', () => {
+  const bounds = { minX: 0, minY: 0, maxX: 40, maxY: 20 };
+
+  it('covers the bounds with width × height cells', () => {
+    const raster = rasterize([fieldPoint(10, 10, 1)], bounds, { width: 8, height: 4 });
+    expect(raster.width).toBe(8);
+    expect(raster.height).toBe(4);
+    expect(raster.bounds).toEqual(bounds);
+    expect(raster.intensity).toHaveLength(32);
+    expect(raster.psiCollapse).toHaveLength(32);
+    expect(raster.psiBloom).toHaveLength(32);
+  });
+
+  it('takes a sample on a cell centre as is and interpolates between samples', () => {
+    // Cell centres of a 2 × 1 raster are (10, 10) and (30, 10)
+    const points = [fieldPoint(10, 10, 1), fieldPoint(30, 10, 0), fieldPoint(20, 0, 0.5)];
+    const raster = rasterize(points, bounds, { width: 2, height: 1 });
+    expect(raster.intensity[0]).toBe(1);
+    expect(raster.psiBloom[0]).toBe(2);
+    expect(raster.intensity[1]).toBe(0);
+
+    const between = rasterize(points, { minX: 15, minY: 0, maxX: 25, maxY: 20 }, { width: 1, height: 1 });
+    expect(between.intensity[0]).toBeGreaterThan(0);
+    expect(between.intensity[0]).toBeLessThan(1);
+  });
+
+  it('returns an empty raster without samples', () => {
+    expect(rasterize([], bounds, { width: 2, height: 2 }).intensity).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('HarmonicFieldProcessor.sampleQuantumField', () => {
+  it('returns the sampled points and a raster over the requested bounds', () => {
+    const processor = new HarmonicFieldProcessor('test_sampler');
+    [396, 432, 528].forEach((frequency, i) => processor.queueHarmonicStream(frequency, 0.6, `node_${i}`));
+    processor.tick();
+
+    const bounds = { minX: -30, minY: -30, maxX: 30, maxY: 30 };
+    const { points, raster } = processor.sampleQuantumField({ mode: 'grid', width: 6, height: 4, bounds, raster: { width: 5, height: 3 } });
+    expect(points).toHaveLength(24);
+    expectInside(points, bounds);
+    expect(raster).not.toBeNull();
+    expect(raster!.bounds).toEqual(bounds);
+    expect(raster!.intensity).toHaveLength(15);
+
+    expect(processor.sampleQuantumField().points).toEqual(processor.getSnapshot().quantumField);
+    expect(processor.sampleQuantumField().raster).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import type { QuantumFieldPoint } from './HarmonicFieldProcessor';
+import { Point, distanceBetween } from './FieldIndex';
+
+// Where the quantum field is sampled, and the heatmap raster interpolated from the samples
+
+export type FieldSamplingMode = 'spiral' | 'grid' | 'polar';
+
+export interface FieldBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface RasterSize {
+  width: number;
+  height: number;
+}
+
+export interface FieldSamplingOptions {
+  mode?: FieldSamplingMode; // Default 'spiral'
+  resolution?: number; // Spiral points, or points per polar ring; grid columns and rows unless width/height are set
+  width?: number; // Grid columns
+  height?: number; // Grid rows
+  rings?: number; // Polar rings around the centre point
+  bounds?: FieldBounds;
+  raster?: RasterSize; // Heatmap cells; no raster unless set
+}
+
+// Options with every default filled in and every size clamped
+export interface FieldSampling {
+  mode: FieldSamplingMode;
+  resolution: number;
+  width: number;
+  height: number;
+  rings: number;
+  bounds: FieldBounds;
+  raster: RasterSize | null;
+}
+
+// Row-major from (minX, minY); each value is taken at its cell's centre
+export interface FieldRaster {
+  width: number;
+  height: number;
+  bounds: FieldBounds;
+  intensity: number[];
+  psiCollapse: number[];
+  psiBloom: number[];
+}
+
+export interface QuantumFieldSample {
+  mode: FieldSamplingMode;
+  bounds: FieldBounds;
+  points: QuantumFieldPoint[];
+  raster: FieldRaster | null;
+}
+
+// The extent of the original 50-point spiral (radius 8√49), which covers the Solfeggio band
+export const DEFAULT_FIELD_BOUNDS: FieldBounds = { minX: -56, minY: -56, maxX: 56, maxY: 56 };
+export const DEFAULT_SPIRAL_POINTS = 50;
+export const MAX_SAMPLE_POINTS = 1024;
+export const MAX_RASTER_SIZE = 64; // Cells per side
+
+const DEFAULT_GRID_SIZE = 16;
+const DEFAULT_POLAR_RINGS = 8;
+const DEFAULT_RING_POINTS = 16;
+const INTERPOLATION_NEIGHBOURS = 4;
+const PHI = 1.618033988749;
+
+export function resolveSampling(options: FieldSamplingOptions = {}): FieldSampling {
+  const mode = options.mode ?? 'spiral';
+  const clampSize = (value: number | undefined, fallback: number, max: number) =>
+    Math.max(1, Math.min(max, Math.floor(value ?? fallback)));
+
+  const gridDefault = options.resolution ?? DEFAULT_GRID_SIZE;
+  const width = clampSize(options.width, gridDefault, MAX_SAMPLE_POINTS);
+  const height = clampSize(options.height, gridDefault, Math.floor(MAX_SAMPLE_POINTS / width));
+  const rings = clampSize(options.rings, DEFAULT_POLAR_RINGS, MAX_SAMPLE_POINTS - 1);
+  const resolution = mode === 'polar'
+    ? clampSize(options.resolution, DEFAULT_RING_POINTS, Math.floor((MAX_SAMPLE_POINTS - 1) / rings))
+    : clampSize(options.resolution, DEFAULT_SPIRAL_POINTS, MAX_SAMPLE_POINTS);
+
+  return {
+    mode,
+    resolution,
+    width,
+    height,
+    rings,
+    bounds: { ...(options.bounds ?? DEFAULT_FIELD_BOUNDS) },
+    raster: options.raster
+      ? {
+          width: clampSize(options.raster.width, 0, MAX_RASTER_SIZE),
+          height: clampSize(options.raster.height, 0, MAX_RASTER_SIZE)
+        }
+      : null
+  };
+}
+
+// Sample positions for a sampling; spiral and polar fill the circle inscribed in the bounds
+export function samplePositions({ mode, resolution, width, height, rings, bounds }: FieldSampling): Point[] {
+  const centreX = (bounds.minX + bounds.maxX) / 2;
+  const centreY = (bounds.minY + bounds.maxY) / 2;
+  const radius = Math.min(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
+
+  switch (mode) {
+    case 'spiral':
+      // Golden angle steps with equal area per point
+      return Array.from({ length: resolution }, (_, i) => {
+        const theta = i * 2 * Math.PI / PHI;
+        const r = resolution > 1 ? Math.sqrt(i / (resolution - 1)) * radius : 0;
+        return { x: centreX + r * Math.cos(theta), y: centreY + r * Math.sin(theta) };
+      });
+
+    case 'grid':
+      // Corners included; a single column or row runs through the centre
+      return Array.from({ length: width * height }, (_, i) => ({
+        x: width > 1 ? bounds.minX + (i % width) * (bounds.maxX - bounds.minX) / (width - 1) : centreX,
+        y: height > 1 ? bounds.minY + Math.floor(i / width) * (bounds.maxY - bounds.minY) / (height - 1) : centreY
+      }));
+
+    case 'polar': {
+      const points: Point[] = [{ x: centreX, y: centreY }];
+      for (let ring = 1; ring <= rings; ring++) {
+        const r = radius * ring / rings;
+        for (let step = 0; step < resolution; step++) {
+          const theta = step * 2 * Math.PI / resolution;
+          points.push({ x: centreX + r * Math.cos(theta), y: centreY + r * Math.sin(theta) });
+        }
+      }
+      return points;
+    }
+  }
+}
+
+// Inverse-distance weighting over the nearest samples of each raster cell centre
+export function rasterize(points: QuantumFieldPoint[], bounds: FieldBounds, size: RasterSize): FieldRaster {
+  const cells = size.width * size.height;
+  const raster: FieldRaster = {
+    ...size,
+    bounds,
+    intensity: new Array(cells).fill(0),
+    psiCollapse: new Array(cells).fill(0),
+    psiBloom: new Array(cells).fill(0)
+  };
+  if (points.length === 0) return raster;
+
+  const cellWidth = (bounds.maxX - bounds.minX) / size.width;
+  const cellHeight = (bounds.maxY - bounds.minY) / size.height;
+  const neighbours = Math.min(INTERPOLATION_NEIGHBOURS, points.length);
+
+  for (let cell = 0; cell < cells; cell++) {
+    const centre = {
+      x: bounds.minX + (cell % size.width + 0.5) * cellWidth,
+      y: bounds.minY + (Math.floor(cell / size.width) + 0.5) * cellHeight
+    };
+
+    // Nearest samples, closest first
+    const nearest: { point: QuantumFieldPoint; distance: number }[] = [];
+    points.forEach(point => {
+      const distance = distanceBetween(centre, point);
+      if (nearest.length === neighbours && distance >= nearest[neighbours - 1].distance) return;
+      if (nearest.length === neighbours) nearest.pop();
+      let i = nearest.length;
+      while (i > 0 && nearest[i - 1].distance > distance) i--;
+      nearest.splice(i, 0, { point, distance });
+    });
+
+    // A sample on the cell centre is taken as is
+    const weighted = nearest[0].distance === 0
+      ? [{ point: nearest[0].point, weight: 1 }]
+      : nearest.map(({ point, distance }) => ({ point, weight: 1 / (distance * distance) }));
+    const totalWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+
+    weighted.forEach(({ point, weight }) => {
+      const share = weight / totalWeight;
+      raster.intensity[cell] += point.intensity * share;
+      raster.psiCollapse[cell] += point.quantumState.psi_collapse * share;
+      raster.psiBloom[cell] += point.quantumState.psi_bloom * share;
+    });
+  }
+
+  return raster;
+}
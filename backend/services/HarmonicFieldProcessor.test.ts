@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FieldRuntime, ManualClock } from './FieldRuntime';
+import { FieldStats, FieldStoppedError, HarmonicFieldProcessor, TICK_INTERVAL_MS } from './HarmonicFieldProcessor';
+
+const SOLFEGGIO = [174, 285, 396, 417, 432, 528, 639, 741, 852, 963];
+
+const runtime = FieldRuntime.getInstance();
+let clock: ManualClock;
+let namespaceCount = 0;
+
+beforeEach(() => {
+  clock = new ManualClock(1_700_000_000_000);
+  runtime.setClock(clock);
+  runtime.setSeed(64);
+});
+
+function randomFrequency(): number {
+  const base = SOLFEGGIO[Math.floor(runtime.next() * SOLFEGGIO.length)];
+  return base * (0.9 + runtime.next() * 0.2);
+}
+
+// A processor restored from the same storage runs the all-pairs pass over the stored nodes
+function recompute(namespace: string): FieldStats {
+  return new HarmonicFieldProcessor(namespace).getFieldStats();
+}
+
+function expectSameStats(live: FieldStats, rebuilt: FieldStats): void {
+  expect(live.activeNodes).toBe(rebuilt.activeNodes);
+  expect(live.phiHarmonicsCount).toBe(rebuilt.phiHarmonicsCount);
+  expect(live.intervalsCount).toBe(rebuilt.intervalsCount);
+  expect(live.chordsCount).toBe(rebuilt.chordsCount);
+  expect(live.fibonacciChainsCount).toBe(rebuilt.fibonacciChainsCount);
+  expect(live.globalResonance).toBeCloseTo(rebuilt.globalResonance, 9);
+  expect(live.averageFrequency).toBeCloseTo(rebuilt.averageFrequency, 9);
+  expect(live.fieldCoherence).toBeCloseTo(rebuilt.fieldCoherence, 9);
+}
+
+// Pairs are listed in the order they last changed, which a recompute does not reproduce
+function sortedPhiHarmonics(processor: HarmonicFieldProcessor) {
+  return [...processor.getSnapshot().phiHarmonics]
+    .sort((a, b) => a.node1.localeCompare(b.node1) || a.node2.localeCompare(b.node2));
+}
+
+describe('HarmonicFieldProcessor incremental aggregates', () => {
+  it('match a full recompute as nodes stream, retune and time out', () => {
+    const namespace = `test_field_${namespaceCount++}`;
+    const processor = new HarmonicFieldProcessor(namespace);
+    const userIds = Array.from({ length: 60 }, (_, i) => `node_${i}`);
+
+    userIds.forEach(userId => processor.queueHarmonicStream(randomFrequency(), 0.3, userId));
+    processor.tick();
+    expectSameStats(processor.getFieldStats(), recompute(namespace));
+
+    // Only the first half keeps streaming, so the rest time out along the way
+    for (let tick = 0; tick < 400; tick++) {
+      clock.advance(TICK_INTERVAL_MS);
+      const userId = userIds[Math.floor(runtime.next() * userIds.length / 2)];
+      processor.queueHarmonicStream(randomFrequency(), 0.2 + runtime.next() * 0.6, userId, runtime.next());
+      processor.tick();
+
+      if (tick % 50 === 49) {
+        expectSameStats(processor.getFieldStats(), recompute(namespace));
+      }
+    }
+
+    expect(processor.getFieldStats().activeNodes).toBeLessThan(userIds.length);
+    expect(sortedPhiHarmonics(processor)).toEqual(sortedPhiHarmonics(new HarmonicFieldProcessor(namespace)));
+  });
+
+  it('starts from the stored nodes when restored', () => {
+    const namespace = `test_field_${namespaceCount++}`;
+    const processor = new HarmonicFieldProcessor(namespace);
+    [396, 432, 528, 639].forEach((frequency, i) => processor.queueHarmonicStream(frequency, 0.5, `node_${i}`));
+    processor.tick();
+
+    const restored = new HarmonicFieldProcessor(namespace);
+    expect(restored.getNodes().map(node => node.userId)).toEqual(processor.getNodes().map(node => node.userId));
+    expectSameStats(processor.getFieldStats(), restored.getFieldStats());
+  });
+});
+
+describe('HarmonicFieldProcessor cutoff radius', () => {
+  // Same seed and clock for both runs, so only the cutoff differs
+  function run(cutoffRadius: number, frequencyOf: () => number): HarmonicFieldProcessor {
+    clock.set(1_700_000_000_000);
+    runtime.setSeed(23);
+
+    const processor = new HarmonicFieldProcessor(`test_field_${namespaceCount++}`, { cutoffRadius });
+    const frequencies = Array.from({ length: 200 }, frequencyOf);
+    frequencies.forEach((frequency, i) => processor.queueHarmonicStream(frequency, 0.5, `node_${i}`));
+    processor.tick();
+
+    for (let tick = 0; tick < 20; tick++) {
+      clock.advance(TICK_INTERVAL_MS);
+      for (let i = 0; i < 10; i++) {
+        const node = Math.floor(runtime.next() * frequencies.length);
+        processor.queueHarmonicStream(frequencies[node] * (0.99 + runtime.next() * 0.02), 0.2 + runtime.next() * 0.6, `node_${node}`);
+      }
+      processor.tick();
+    }
+    return processor;
+  }
+
+  function maxFieldError(exact: HarmonicFieldProcessor, approximate: HarmonicFieldProcessor): number {
+    const points = approximate.getSnapshot().quantumField;
+    return Math.max(...exact.getSnapshot().quantumField.map((point, i) => Math.max(
+      Math.abs(point.intensity - points[i].intensity),
+      Math.abs(point.quantumState.psi_bloom - points[i].quantumState.psi_bloom),
+      Math.abs(point.resonance - points[i].resonance)
+    )));
+  }
+
+  it('matches the all-nodes result for a field within the cutoff', () => {
+    const solfeggio = () => randomFrequency();
+    const exact = run(Infinity, solfeggio);
+    const cutoff = run(150, solfeggio);
+
+    expectSameStats(cutoff.getFieldStats(), exact.getFieldStats());
+    expect(maxFieldError(exact, cutoff)).toBeLessThan(1e-9);
+  });
+
+  it('stays within tolerance of the all-nodes result for a field wider than the cutoff', () => {
+    const wide = () => 20 + runtime.next() * 9980;
+    const exact = run(Infinity, wide);
+    const cutoff = run(150, wide);
+
+    expect(cutoff.getFieldStats().phiHarmonicsCount).toBe(exact.getFieldStats().phiHarmonicsCount);
+    expect(cutoff.getFieldStats().globalResonance).toBeCloseTo(exact.getFieldStats().globalResonance, 2);
+    expect(maxFieldError(exact, cutoff)).toBeLessThan(1e-2);
+  });
+});
+
+describe('HarmonicFieldProcessor stop', () => {
+  it('rejects queued streams, and streams queued until it starts again', async () => {
+    const processor = new HarmonicFieldProcessor(`test_field_${namespaceCount++}`);
+    const pending = processor.queueHarmonicStream(432, 0.5, 'node_a');
+
+    processor.stop();
+    await expect(pending).rejects.toBeInstanceOf(FieldStoppedError);
+    await expect(processor.queueHarmonicStream(432, 0.5, 'node_a')).rejects.toBeInstanceOf(FieldStoppedError);
+    expect(processor.tick().activeNodes).toBe(0);
+
+    processor.start();
+    processor.stop();
+    processor.start();
+    const applied = processor.queueHarmonicStream(432, 0.5, 'node_a');
+    processor.tick();
+    processor.stop();
+    await expect(applied).resolves.toMatchObject({ activeNodes: 1 });
+  });
+});
@@ -1,22 +1,219 @@
-// Harmonic field processor for real-time Solfeggio resonance
-export class HarmonicFieldProcessor {
-  private static instance: HarmonicFieldProcessor;
-  private harmonicField: Map<string, HarmonicNode> = new Map();
+import { EventEmitter } from 'events';
+import { Room64Portal, PortalState } from './Room64Portal';
+import { StorageProvider } from '../storage/StorageProvider';
+import { FieldRuntime } from './FieldRuntime';
+import { FrequencyIndex, SpatialGrid, distanceBetween, mergeRanges } from './FieldIndex';
+import {
+  DEFAULT_SPIRAL_POINTS,
+  FieldSampling,
+  FieldSamplingOptions,
+  QuantumFieldSample,
+  rasterize,
+  resolveSampling,
+  samplePositions
+} from './FieldSampler';
+import { HarmonicRelationshipTracker, RelationshipKind, RelationshipPage } from './HarmonicRelationships';
+
+// Phase profile of the 64 resonance matrix bins
+const RESONANCE_PROFILE = Array.from({ length: 64 }, (_, k) => Math.cos((k * Math.PI) / 32));
+
+// Field ticks per second; matches the WebSocket broadcast rate
+export const TICK_INTERVAL_MS = 100;
+
+// Node interference (exp(-d/100)) and quantum field sampling (exp(-d/50)) skip nodes
+// further away than this; phi harmonic bonuses still count at any distance. At 150 the
+// sampled field moves by under 0.01 (backend/benchmarks/spatialIndex.ts).
+// Set with HARMONIC_FIELD_CUTOFF; Infinity gives the exact all-nodes result.
+export const DEFAULT_CUTOFF_RADIUS = readCutoffRadius(150);
+
+// Harmonic field processor for real-time Solfeggio resonance; one per field room.
+// Once started, a fixed-rate tick applies queued streams, advances entanglement phases and
+// decoherence, drops timed-out nodes and publishes one HarmonicUpdate and FieldStats
+// snapshot, which every read returns until the next tick.
+// Emits 'node_update' and 'entanglement_created' for changes made on this instance,
+// 'tick' with each tick's HarmonicUpdate, and 'field_changed' after ticks that changed
+// nodes or entanglements.
+export class HarmonicFieldProcessor extends EventEmitter {
+  private runtime = FieldRuntime.getInstance();
+  private harmonicField: Map<string, HarmonicNode>;
   private phiConstant = 1.618033988749; // Golden ratio
   private tPhiResonance = Math.PI / this.phiConstant; // ≈ 1.947
   private globalResonanceMatrix: Float32Array = new Float32Array(64);
   private activeNodes: Set<string> = new Set();
-  private lastUpdate = Date.now();
+  private entanglements: Map<string, QuantumEntanglement> = new Map();
+  private lastUpdate = this.runtime.now();
+  private fieldResolution = DEFAULT_SPIRAL_POINTS; // Points in a full quantum field snapshot
+  private decoherenceTime = 100000; // 100s decay
+  private minEntanglementCoherence = 0.1;
+  private portal = new Room64Portal();
+  private nodeTimeout = 30000; // Nodes silent this long are dropped
+  private cutoffRadius: number;
+
+  // Tick state
+  private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private stopped = false; // Until started again; streams queued meanwhile are rejected
+  private queuedStreams: QueuedStream[] = [];
+  private fieldChanged = false; // Since the last tick
+  private snapshot!: HarmonicUpdate;
+  private statsSnapshot!: FieldStats;
+  private fieldSamples: Map<string, QuantumFieldSample> = new Map(); // This tick's, by sampling
+
+  // Running aggregates, updated for the pairs of a changed node instead of recomputed over
+  // every pair. The resonance matrix is the interference sum spread over RESONANCE_PROFILE.
+  private nodeOrder: Map<string, number> = new Map(); // Insertion order, which orients pair ratios
+  private nextNodeOrder = 0;
+  private interferenceSum = 0;
+  private phiHarmonics: Map<string, PhiHarmonic> = new Map(); // By ordered pair key
+  private frequencySum = 0;
+  private coherenceSum = 0;
+  private coherenceSquareSum = 0;
+  private weightedPressureSum = 0;
+  private weightSum = 0;
+
+  // Where pair partners can be: near in space, or in a phi ratio in frequency
+  private nodeGrid: SpatialGrid<IndexedNode>;
+  private frequencyIndex = new FrequencyIndex<IndexedNode>();
+  private phiPartnerRanges = this.calculatePhiPartnerRanges();
 
-  static getInstance(): HarmonicFieldProcessor {
-    if (!HarmonicFieldProcessor.instance) {
-      HarmonicFieldProcessor.instance = new HarmonicFieldProcessor();
+  // Intervals, chords and Fibonacci chains between node frequencies
+  private relationships = new HarmonicRelationshipTracker();
+
+  constructor(storageNamespace: string, options: FieldProcessorOptions = {}) {
+    super();
+    this.harmonicField = StorageProvider.getInstance().createMap(storageNamespace);
+    this.cutoffRadius = options.cutoffRadius ?? DEFAULT_CUTOFF_RADIUS;
+    this.nodeGrid = new SpatialGrid(this.cutoffRadius);
+
+    // Rebuild derived state for nodes restored from storage
+    this.rebuildAggregates();
+    this.takeSnapshot([]);
+  }
+
+  start(): void {
+    this.stopped = false;
+    if (this.tickInterval) return;
+    this.tickInterval = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  // Stop ticking; streams still queued are rejected with FieldStoppedError
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
     }
-    return HarmonicFieldProcessor.instance;
+    this.stopped = true;
+
+    const queued = this.queuedStreams;
+    this.queuedStreams = [];
+    queued.forEach(stream => stream.reject(new FieldStoppedError()));
   }
 
-  // Process harmonic stream with T-Phi resonance
-  processHarmonicStream(frequency: number, amplitude: number, userId: string): HarmonicUpdate {
+  // Queue a harmonic stream for the next tick. Resolves with that tick's update, carrying
+  // the cascades this stream set off.
+  queueHarmonicStream(frequency: number, amplitude: number, userId: string, phase: number = 0): Promise<HarmonicUpdate> {
+    if (this.stopped) {
+      return Promise.reject(new FieldStoppedError());
+    }
+    return new Promise((resolve, reject) => {
+      this.queuedStreams.push({ frequency, amplitude, userId, phase, resolve, reject });
+    });
+  }
+
+  // Advance the field one step; called by start() every TICK_INTERVAL_MS, or directly
+  // alongside a ManualClock
+  tick(): HarmonicUpdate {
+    const queued = this.queuedStreams;
+    this.queuedStreams = [];
+
+    const applied = queued.map(stream => ({
+      stream,
+      ...this.applyHarmonicStream(stream.frequency, stream.amplitude, stream.userId, stream.phase)
+    }));
+
+    // Advance the Room 64 portal once for the whole tick
+    this.portal.observe({
+      streams: applied.map(({ stream, phiAlignment, cascades }) => ({
+        userId: stream.userId,
+        frequency: stream.frequency,
+        amplitude: stream.amplitude,
+        phiAlignment,
+        cascades: cascades.length
+      })),
+      fieldCoherence: this.calculateFieldCoherence(),
+      phiHarmonics: this.phiHarmonics.size,
+      timestamp: this.runtime.now()
+    });
+
+    this.updateEntanglements();
+    this.cleanupInactiveNodes();
+
+    const update = this.takeSnapshot(applied.flatMap(result => result.cascades));
+
+    applied.forEach(({ stream, node, cascades }) => {
+      this.emit('node_update', node);
+      stream.resolve({ ...update, harmonicCascades: cascades });
+    });
+    this.emit('tick', update);
+    if (this.fieldChanged) {
+      this.fieldChanged = false;
+      this.emit('field_changed', update);
+    }
+
+    return update;
+  }
+
+  // The last tick's update
+  getSnapshot(): HarmonicUpdate {
+    return this.snapshot;
+  }
+
+  // Freeze the field as clients will see it until the next tick
+  private takeSnapshot(cascades: ResonanceCascade[]): HarmonicUpdate {
+    const now = this.runtime.now();
+    const entanglements = Array.from(this.entanglements.values(), entanglement => ({
+      ...entanglement,
+      bellState: { ...entanglement.bellState }
+    }));
+    this.fieldSamples.clear();
+
+    const relationships = this.relationships.counts();
+
+    this.snapshot = {
+      globalResonance: this.calculateGlobalResonance(),
+      harmonicCascades: cascades,
+      activeNodes: this.activeNodes.size,
+      phiHarmonics: Array.from(this.phiHarmonics.values()),
+      intervalsCount: relationships.intervals,
+      chordsCount: relationships.chords,
+      fibonacciChainsCount: relationships.fibonacciChains,
+      quantumField: this.sampleQuantumField().points,
+      entanglements,
+      portalState: this.portal.getState(),
+      timestamp: now
+    };
+    this.statsSnapshot = {
+      activeNodes: this.snapshot.activeNodes,
+      globalResonance: this.snapshot.globalResonance,
+      averageFrequency: this.calculateAverageFrequency(),
+      phiHarmonicsCount: this.snapshot.phiHarmonics.length,
+      intervalsCount: this.snapshot.intervalsCount,
+      chordsCount: this.snapshot.chordsCount,
+      fibonacciChainsCount: this.snapshot.fibonacciChainsCount,
+      entanglementsCount: entanglements.length,
+      fieldCoherence: this.calculateFieldCoherence(),
+      lastUpdate: this.lastUpdate
+    };
+
+    return this.snapshot;
+  }
+
+  // Apply one queued stream with T-Phi resonance
+  private applyHarmonicStream(
+    frequency: number,
+    amplitude: number,
+    userId: string,
+    phase: number
+  ): { node: HarmonicNode; cascades: ResonanceCascade[]; phiAlignment: number } {
     const harmonicPressure = this.calculateHarmonicPressure(frequency, amplitude);
     const phiModulation = this.calculatePhiModulation(frequency);
     const quantumCoherence = this.calculateQuantumCoherence(frequency, amplitude);
@@ -29,27 +226,17 @@ export class HarmonicFieldProcessor {
       harmonicPressure,
       phiModulation,
       quantumCoherence,
-      timestamp: Date.now(),
+      timestamp: this.runtime.now(),
       position: this.calculateGoldenSpiralPosition(frequency)
     };
     
-    this.harmonicField.set(userId, node);
-    this.activeNodes.add(userId);
-    
-    // Update global resonance matrix
-    this.updateGlobalResonanceMatrix();
+    this.setNode(node);
+    this.lastUpdate = node.timestamp;
     
     // Detect resonance cascades
     const cascades = this.detectResonanceCascades(harmonicPressure);
     
-    return {
-      globalResonance: this.calculateGlobalResonance(),
-      harmonicCascades: cascades,
-      activeNodes: this.activeNodes.size,
-      phiHarmonics: this.detectPhiHarmonics(),
-      quantumField: this.generateQuantumFieldSnapshot(),
-      timestamp: Date.now()
-    };
+    return { node, cascades, phiAlignment: Math.cos(frequency * this.tPhiResonance + phase) };
   }
 
   // Calculate four-component harmonic pressure
@@ -57,7 +244,7 @@ export class HarmonicFieldProcessor {
     const baseWave = Math.sin(3 * freq) * Math.exp(-freq / 1500);
     const phiModulation = Math.cos(freq * this.tPhiResonance) * 0.7;
     const recursiveDepth = Math.sin(0.01 * freq) * 0.5;
-    const quantumNoise = (Math.random() - 0.5) * 0.1;
+    const quantumNoise = (this.runtime.next() - 0.5) * 0.1;
     
     return (baseWave + phiModulation + recursiveDepth + quantumNoise) * amp;
   }
@@ -123,23 +310,149 @@ export class HarmonicFieldProcessor {
     };
   }
 
-  // Update global resonance matrix with all active nodes
-  private updateGlobalResonanceMatrix(): void {
-    this.globalResonanceMatrix.fill(0);
-    
-    const nodes = Array.from(this.harmonicField.values());
-    
-    // Calculate interference patterns between all nodes
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const interference = this.calculateInterference(nodes[i], nodes[j]);
-        
-        // Add to resonance matrix
-        for (let k = 0; k < 64; k++) {
-          const phaseShift = (k * Math.PI) / 32;
-          this.globalResonanceMatrix[k] += interference * Math.cos(phaseShift);
-        }
+  // Store a node and fold the change into the aggregates; visits only its pair candidates
+  private setNode(node: HarmonicNode): void {
+    const previous = this.harmonicField.get(node.userId);
+    if (previous) {
+      this.applyNodeContributions(previous, -1);
+    } else {
+      this.nodeOrder.set(node.userId, this.nextNodeOrder++);
+    }
+
+    this.harmonicField.set(node.userId, node);
+    this.indexNode(node);
+    this.relationships.set(node.userId, node.frequency);
+    this.activeNodes.add(node.userId);
+    this.applyNodeContributions(node, 1);
+    this.settleAggregates();
+    this.fieldChanged = true;
+  }
+
+  private deleteNode(node: HarmonicNode): void {
+    this.applyNodeContributions(node, -1);
+    this.harmonicField.delete(node.userId);
+    this.nodeGrid.delete(node.userId);
+    this.frequencyIndex.delete(node.userId);
+    this.relationships.delete(node.userId);
+    this.activeNodes.delete(node.userId);
+    this.nodeOrder.delete(node.userId);
+  }
+
+  private indexNode(node: HarmonicNode): void {
+    const indexed = { node, order: this.nodeOrder.get(node.userId)! };
+    this.nodeGrid.set(node.userId, node.position, indexed);
+    this.frequencyIndex.set(node.userId, node.frequency, indexed);
+  }
+
+  // Indexed nodes that can form a non-zero pair with node, each once: those within the
+  // cutoff radius, and those beyond it in a ratio that earns a harmonic bonus or a phi harmonic
+  private forEachPairCandidate(node: HarmonicNode, fn: (other: IndexedNode) => void): void {
+    this.nodeGrid.forEachWithin(node.position, this.cutoffRadius, other => {
+      if (other.node.userId !== node.userId) fn(other);
+    });
+    this.phiPartnerRanges.forEach(([low, high]) => {
+      this.frequencyIndex.forEachInRange(node.frequency * low, node.frequency * high, other => {
+        if (distanceBetween(node.position, other.node.position) > this.cutoffRadius) fn(other);
+      });
+    });
+  }
+
+  // Frequency factors, either way round, within the bonus and phi harmonic ratio tolerances
+  private calculatePhiPartnerRanges(): [number, number][] {
+    const ratios: [number, number][] = [
+      [this.phiConstant - 0.05, this.phiConstant + 0.05],
+      [1 / this.phiConstant - 0.05, 1 / this.phiConstant + 0.05],
+      [this.phiConstant ** 2 - 0.1, this.phiConstant ** 2 + 0.1]
+    ];
+    return mergeRanges(ratios.flatMap(([low, high]): [number, number][] => [[low, high], [1 / high, 1 / low]]))
+      .map(([low, high]) => [low * (1 - 1e-9), high * (1 + 1e-9)]); // Padded for rounding
+  }
+
+  // Add (sign 1) or remove (sign -1) a node's share of every aggregate
+  private applyNodeContributions(node: HarmonicNode, sign: 1 | -1): void {
+    this.applyNodeSums(node, sign);
+
+    const order = this.nodeOrder.get(node.userId)!;
+    this.forEachPairCandidate(node, other => {
+      if (order < other.order) {
+        this.applyPairContributions(node, other.node, sign);
+      } else {
+        this.applyPairContributions(other.node, node, sign);
       }
+    });
+  }
+
+  private applyNodeSums(node: HarmonicNode, sign: 1 | -1): void {
+    const weight = node.amplitude * node.quantumCoherence.coherence;
+    this.frequencySum += sign * node.frequency;
+    this.coherenceSum += sign * node.quantumCoherence.coherence;
+    this.coherenceSquareSum += sign * node.quantumCoherence.coherence ** 2;
+    this.weightedPressureSum += sign * node.harmonicPressure * weight;
+    this.weightSum += sign * weight;
+  }
+
+  // first is the earlier node, so each pair is always measured the same way round
+  private applyPairContributions(first: HarmonicNode, second: HarmonicNode, sign: 1 | -1): void {
+    this.interferenceSum += sign * this.calculateInterference(first, second);
+
+    // Same states give the same answer, so a pair is only deleted if it was added
+    const phiHarmonic = this.detectPhiHarmonic(first, second);
+    if (!phiHarmonic) return;
+
+    const key = this.getEntanglementKey(first.userId, second.userId);
+    if (sign > 0) {
+      this.phiHarmonics.set(key, phiHarmonic);
+    } else {
+      this.phiHarmonics.delete(key);
+    }
+  }
+
+  // Recompute every aggregate from the stored nodes; only for restored fields
+  private rebuildAggregates(): void {
+    this.activeNodes.clear();
+    this.nodeOrder.clear();
+    this.nodeGrid.clear();
+    this.frequencyIndex.clear();
+    this.relationships.clear();
+    this.phiHarmonics.clear();
+    this.interferenceSum = 0;
+    this.frequencySum = 0;
+    this.coherenceSum = 0;
+    this.coherenceSquareSum = 0;
+    this.weightedPressureSum = 0;
+    this.weightSum = 0;
+
+    // Each node pairs with the nodes indexed before it
+    this.harmonicField.forEach(node => {
+      this.nodeOrder.set(node.userId, this.nextNodeOrder++);
+      this.activeNodes.add(node.userId);
+      this.applyNodeContributions(node, 1);
+      this.indexNode(node);
+      this.relationships.set(node.userId, node.frequency);
+    });
+    this.settleAggregates();
+  }
+
+  // Clear rounding left in sums that should be exactly zero, then refresh the matrix
+  private settleAggregates(): void {
+    if (this.harmonicField.size < 2) {
+      this.interferenceSum = 0;
+      this.phiHarmonics.clear();
+    }
+    if (this.harmonicField.size === 0) {
+      this.frequencySum = 0;
+      this.coherenceSum = 0;
+      this.coherenceSquareSum = 0;
+      this.weightedPressureSum = 0;
+      this.weightSum = 0;
+    }
+    this.updateGlobalResonanceMatrix();
+  }
+
+  // Spread the pair interference sum over the matrix bins
+  private updateGlobalResonanceMatrix(): void {
+    for (let k = 0; k < 64; k++) {
+      this.globalResonanceMatrix[k] = this.interferenceSum * RESONANCE_PROFILE[k];
     }
     
     // Normalize
@@ -151,20 +464,20 @@ export class HarmonicFieldProcessor {
     }
   }
 
-  // Calculate interference between two harmonic nodes
+  // Calculate interference between two harmonic nodes; beyond the cutoff only the
+  // harmonic bonus remains
   private calculateInterference(node1: HarmonicNode, node2: HarmonicNode): number {
     const freqRatio = node1.frequency / node2.frequency;
     const phaseCoherence = Math.cos((node1.timestamp - node2.timestamp) * 0.001);
-    const spatialDistance = Math.sqrt(
-      Math.pow(node1.position.x - node2.position.x, 2) +
-      Math.pow(node1.position.y - node2.position.y, 2)
-    );
+    const spatialDistance = distanceBetween(node1.position, node2.position);
     
     // Golden ratio harmonic relationships
     const isPhiHarmonic = Math.abs(freqRatio - this.phiConstant) < 0.05 ||
                          Math.abs(freqRatio - 1/this.phiConstant) < 0.05;
     
     const harmonicBonus = isPhiHarmonic ? 0.618 : 0;
+    if (spatialDistance > this.cutoffRadius) return harmonicBonus;
+
     const spatialDecay = Math.exp(-spatialDistance / 100);
     
     return (node1.amplitude * node2.amplitude * phaseCoherence * spatialDecay) + harmonicBonus;
@@ -187,7 +500,7 @@ export class HarmonicFieldProcessor {
             resonanceStrength: 1 - resonance,
             frequency: node.frequency,
             position: node.position,
-            timestamp: Date.now()
+            timestamp: this.runtime.now()
           });
         }
       });
@@ -196,151 +509,313 @@ export class HarmonicFieldProcessor {
     return cascades;
   }
 
-  // Detect golden ratio relationships in active frequencies
+  // Golden ratio relationships between active frequencies, as of the last tick
   detectPhiHarmonics(): PhiHarmonic[] {
-    const nodes = Array.from(this.harmonicField.values());
-    const phiHarmonics: PhiHarmonic[] = [];
+    return this.snapshot.phiHarmonics;
+  }
+
+  // Phi relationship of a pair, measured as first.frequency / second.frequency
+  private detectPhiHarmonic(first: HarmonicNode, second: HarmonicNode): PhiHarmonic | null {
+    const ratio = first.frequency / second.frequency;
     
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const ratio = nodes[i].frequency / nodes[j].frequency;
-        
-        // Check for phi relationships
-        if (Math.abs(ratio - this.phiConstant) < 0.05) {
-          phiHarmonics.push({
-            node1: nodes[i].userId,
-            node2: nodes[j].userId,
-            ratio,
-            strength: 1 - Math.abs(ratio - this.phiConstant) / 0.05,
-            type: 'golden_ratio'
-          });
-        } else if (Math.abs(ratio - this.phiConstant ** 2) < 0.1) {
-          phiHarmonics.push({
-            node1: nodes[i].userId,
-            node2: nodes[j].userId,
-            ratio,
-            strength: 1 - Math.abs(ratio - this.phiConstant ** 2) / 0.1,
-            type: 'golden_square'
-          });
-        }
-      }
+    // Check for phi relationships
+    if (Math.abs(ratio - this.phiConstant) < 0.05) {
+      return {
+        node1: first.userId,
+        node2: second.userId,
+        ratio,
+        strength: 1 - Math.abs(ratio - this.phiConstant) / 0.05,
+        type: 'golden_ratio'
+      };
+    } else if (Math.abs(ratio - this.phiConstant ** 2) < 0.1) {
+      return {
+        node1: first.userId,
+        node2: second.userId,
+        ratio,
+        strength: 1 - Math.abs(ratio - this.phiConstant ** 2) / 0.1,
+        type: 'golden_square'
+      };
     }
     
-    return phiHarmonics;
+    return null;
   }
 
   // Calculate global resonance from all active nodes
   private calculateGlobalResonance(): number {
     if (this.activeNodes.size === 0) return 0;
     
-    const nodes = Array.from(this.harmonicField.values());
-    let totalResonance = 0;
-    let totalWeight = 0;
-    
-    nodes.forEach(node => {
-      const weight = node.amplitude * node.quantumCoherence.coherence;
-      totalResonance += node.harmonicPressure * weight;
-      totalWeight += weight;
-    });
-    
-    return totalWeight > 0 ? Math.min(1, Math.abs(totalResonance / totalWeight)) : 0;
+    return this.weightSum > 0 ? Math.min(1, Math.abs(this.weightedPressureSum / this.weightSum)) : 0;
   }
 
-  // Generate quantum field snapshot
-  generateQuantumFieldSnapshot(): QuantumFieldPoint[] {
-    const fieldPoints: QuantumFieldPoint[] = [];
+  // The last tick's quantum field; fewer points sample the full 50-point spiral evenly
+  getQuantumField(points: number = this.fieldResolution): QuantumFieldPoint[] {
+    const field = this.snapshot.quantumField;
+    const count = Math.max(1, Math.min(this.fieldResolution, Math.floor(points)));
+    if (count === this.fieldResolution) return field;
+
+    return Array.from({ length: count }, (_, n) => field[Math.floor(n * this.fieldResolution / count)]);
+  }
+
+  // The quantum field at the last tick, sampled as asked; the default is the snapshot's
+  // 50-point spiral. Samples are kept until the next tick.
+  sampleQuantumField(options: FieldSamplingOptions = {}): QuantumFieldSample {
+    const sampling = resolveSampling(options);
+    const key = JSON.stringify(sampling);
+
+    let sample = this.fieldSamples.get(key);
+    if (!sample) {
+      sample = this.generateQuantumFieldSample(sampling);
+      this.fieldSamples.set(key, sample);
+    }
+    return sample;
+  }
+
+  private generateQuantumFieldSample(sampling: FieldSampling): QuantumFieldSample {
+    const points = samplePositions(sampling).map(({ x, y }) => this.sampleQuantumFieldPoint(x, y));
+
+    return {
+      mode: sampling.mode,
+      bounds: sampling.bounds,
+      points,
+      raster: sampling.raster && rasterize(points, sampling.bounds, sampling.raster)
+    };
+  }
+
+  // Field intensity and quantum state at a point, from nodes within the cutoff
+  private sampleQuantumFieldPoint(x: number, y: number): QuantumFieldPoint {
+    let intensity = 0;
+    let quantumState = { psi_collapse: 0, psi_bloom: 0 };
     
-    // Generate field points in golden spiral
-    for (let i = 0; i < 50; i++) {
-      const theta = i * 2 * Math.PI / this.phiConstant;
-      const r = Math.sqrt(i) * 8;
-      const x = r * Math.cos(theta);
-      const y = r * Math.sin(theta);
-      
-      // Calculate field intensity at this point
-      let intensity = 0;
-      let quantumState = { psi_collapse: 0, psi_bloom: 0 };
-      
-      this.harmonicField.forEach(node => {
-        const distance = Math.sqrt(
-          Math.pow(x - node.position.x, 2) + 
-          Math.pow(y - node.position.y, 2)
-        );
-        
-        const influence = Math.exp(-distance / 50) * node.amplitude;
-        intensity += influence;
-        
-        quantumState.psi_collapse += node.quantumCoherence.psi_collapse * influence;
-        quantumState.psi_bloom += node.quantumCoherence.psi_bloom * influence;
-      });
+    this.nodeGrid.forEachWithin({ x, y }, this.cutoffRadius, ({ node }, distance) => {
+      const influence = Math.exp(-distance / 50) * node.amplitude;
+      intensity += influence;
       
-      // Normalize quantum state
-      const total = quantumState.psi_collapse + quantumState.psi_bloom;
-      if (total > 0) {
-        quantumState.psi_collapse /= total;
-        quantumState.psi_bloom /= total;
-      }
-      
-      fieldPoints.push({
-        x, y,
-        intensity: Math.min(1, intensity),
-        quantumState,
-        resonance: this.globalResonanceMatrix[i % 64] || 0
-      });
+      quantumState.psi_collapse += node.quantumCoherence.psi_collapse * influence;
+      quantumState.psi_bloom += node.quantumCoherence.psi_bloom * influence;
+    });
+    
+    // Normalize quantum state
+    const total = quantumState.psi_collapse + quantumState.psi_bloom;
+    if (total > 0) {
+      quantumState.psi_collapse /= total;
+      quantumState.psi_bloom /= total;
     }
     
-    return fieldPoints;
+    return {
+      x, y,
+      intensity: Math.min(1, intensity),
+      quantumState,
+      resonance: this.resonanceAt(x, y)
+    };
+  }
+
+  // The resonance matrix bin under a point's angle around the field centre, interpolated
+  // between neighbouring bins; the bins span one turn like RESONANCE_PROFILE's phases
+  private resonanceAt(x: number, y: number): number {
+    const turn = (Math.atan2(y, x) / (2 * Math.PI) + 1) % 1;
+    const position = turn * 64;
+    const bin = Math.floor(position) % 64;
+    const fraction = position - Math.floor(position);
+
+    const resonance = this.globalResonanceMatrix[bin] * (1 - fraction) +
+      this.globalResonanceMatrix[(bin + 1) % 64] * fraction;
+    return resonance || 0; // No -0 from an empty matrix
+  }
+
+  // Entangle two active nodes into a Bell state
+  createEntanglement(
+    sourceUserId: string,
+    targetUserId: string,
+    entanglementType: EntanglementType = 'harmonic'
+  ): EntanglementAttempt {
+    const source = this.harmonicField.get(sourceUserId);
+    const target = this.harmonicField.get(targetUserId);
+
+    if (!source || !target) {
+      return { success: false, reason: 'node_not_found', compatibility: 0 };
+    }
+
+    if (sourceUserId === targetUserId) {
+      return { success: false, reason: 'self_entanglement', compatibility: 0 };
+    }
+
+    const compatibility = this.calculateEntanglementCompatibility(source, target);
+    if (compatibility < 0.5) {
+      return { success: false, reason: 'incompatible', compatibility };
+    }
+
+    const now = this.runtime.now();
+    const [node1, node2] = [sourceUserId, targetUserId].sort();
+    const alpha = this.runtime.next() * 2 * Math.PI;
+    const beta = this.runtime.next() * 2 * Math.PI;
+
+    const entanglement: QuantumEntanglement = {
+      id: this.getEntanglementKey(node1, node2),
+      node1,
+      node2,
+      entanglementType,
+      compatibility,
+      bellState: {
+        alpha,
+        beta,
+        coherence: 1.0,
+        entanglementStrength: 0.8 + this.runtime.next() * 0.2,
+        type: this.classifyBellState(alpha, beta)
+      },
+      createdAt: now,
+      lastUpdate: now
+    };
+
+    this.entanglements.set(entanglement.id, entanglement);
+    this.fieldChanged = true;
+    this.emit('entanglement_created', entanglement);
+
+    return { success: true, entanglement };
+  }
+
+  // Active entanglements as of the last tick
+  getEntanglements(): QuantumEntanglement[] {
+    return this.snapshot.entanglements;
+  }
+
+  // Compatibility from both nodes' coherence, boosted by phi-related frequencies
+  private calculateEntanglementCompatibility(node1: HarmonicNode, node2: HarmonicNode): number {
+    const coherence = Math.sqrt(
+      node1.quantumCoherence.coherence * node2.quantumCoherence.coherence
+    );
+    const ratio = Math.max(node1.frequency, node2.frequency) / Math.min(node1.frequency, node2.frequency);
+    const phiBonus = Math.abs(ratio - this.phiConstant) < 0.05 ? 0.2 : 0;
+
+    return Math.min(1, coherence + phiBonus);
+  }
+
+  // Advance Bell state phases and decay coherence since creation
+  private updateEntanglements(): void {
+    const now = this.runtime.now();
+
+    this.entanglements.forEach((entanglement, key) => {
+      const node1 = this.harmonicField.get(entanglement.node1);
+      const node2 = this.harmonicField.get(entanglement.node2);
+      if (!node1 || !node2) {
+        this.entanglements.delete(key);
+        this.fieldChanged = true;
+        return;
+      }
+
+      const elapsed = (now - entanglement.lastUpdate) / 1000;
+      const { bellState } = entanglement;
+      bellState.alpha = (bellState.alpha + node1.frequency * this.tPhiResonance * elapsed) % (2 * Math.PI);
+      bellState.beta = (bellState.beta + node2.frequency * this.tPhiResonance * elapsed) % (2 * Math.PI);
+      bellState.coherence = Math.exp(-(now - entanglement.createdAt) / this.decoherenceTime);
+      bellState.type = this.classifyBellState(bellState.alpha, bellState.beta);
+      entanglement.lastUpdate = now;
+
+      if (bellState.coherence < this.minEntanglementCoherence) {
+        this.entanglements.delete(key);
+        this.fieldChanged = true;
+      }
+    });
+  }
+
+  // Map the relative phase of the pair onto the nearest Bell basis state
+  private classifyBellState(alpha: number, beta: number): BellStateType {
+    const relativePhase = ((alpha - beta) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI);
+    const quadrant = Math.floor(relativePhase / (Math.PI / 2)) % 4;
+    const types: BellStateType[] = ['phi_plus', 'psi_plus', 'phi_minus', 'psi_minus'];
+    return types[quadrant];
+  }
+
+  private getEntanglementKey(node1: string, node2: string): string {
+    return `${node1}::${node2}`;
+  }
+
+  // Live nodes, including changes since the last tick
+  getNodes(): HarmonicNode[] {
+    return Array.from(this.harmonicField.values());
+  }
+
+  // Apply a node streamed on another server instance; older copies are ignored.
+  // Shows up in reads from the next tick.
+  applyRemoteNode(node: HarmonicNode): void {
+    const existing = this.harmonicField.get(node.userId);
+    if (existing && existing.timestamp > node.timestamp) return;
+
+    this.setNode(node);
+    this.lastUpdate = Math.max(this.lastUpdate, node.timestamp);
+  }
+
+  // Apply an entanglement created on another server instance
+  applyRemoteEntanglement(entanglement: QuantumEntanglement): void {
+    if (!this.harmonicField.has(entanglement.node1) || !this.harmonicField.has(entanglement.node2)) return;
+    this.entanglements.set(entanglement.id, entanglement);
+    this.fieldChanged = true;
+  }
+
+  getPortal(): Room64Portal {
+    return this.portal;
   }
 
   // Remove inactive nodes
-  cleanupInactiveNodes(): void {
-    const now = Date.now();
-    const timeout = 30000; // 30 seconds
+  private cleanupInactiveNodes(): void {
+    const now = this.runtime.now();
     
-    this.harmonicField.forEach((node, userId) => {
-      if (now - node.timestamp > timeout) {
-        this.harmonicField.delete(userId);
-        this.activeNodes.delete(userId);
+    const expired = Array.from(this.harmonicField.values()).filter(node => now - node.timestamp > this.nodeTimeout);
+    expired.forEach(node => this.deleteNode(node));
+    if (expired.length > 0) {
+      this.settleAggregates();
+      this.fieldChanged = true;
+    }
+
+    this.portal.checkTimeout(now);
+
+    // Break entanglements whose partner timed out
+    this.entanglements.forEach((entanglement, key) => {
+      if (!this.harmonicField.has(entanglement.node1) || !this.harmonicField.has(entanglement.node2)) {
+        this.entanglements.delete(key);
+        this.fieldChanged = true;
       }
     });
   }
 
-  // Get field statistics
+  // Field statistics as of the last tick
   getFieldStats(): FieldStats {
-    return {
-      activeNodes: this.activeNodes.size,
-      globalResonance: this.calculateGlobalResonance(),
-      averageFrequency: this.calculateAverageFrequency(),
-      phiHarmonicsCount: this.detectPhiHarmonics().length,
-      fieldCoherence: this.calculateFieldCoherence(),
-      lastUpdate: this.lastUpdate
-    };
+    return this.statsSnapshot;
+  }
+
+  // One page of the intervals, chords or Fibonacci chains between active nodes, strongest
+  // first; the counts are in FieldStats
+  getRelationships<K extends RelationshipKind>(kind: K, limit: number, cursor?: number): RelationshipPage<K> {
+    return this.relationships.page(kind, limit, cursor);
   }
 
   private calculateAverageFrequency(): number {
-    const nodes = Array.from(this.harmonicField.values());
-    if (nodes.length === 0) return 432; // Default to Earth frequency
+    const count = this.harmonicField.size;
+    if (count === 0) return 432; // Default to Earth frequency
     
-    const totalFreq = nodes.reduce((sum, node) => sum + node.frequency, 0);
-    return totalFreq / nodes.length;
+    return this.frequencySum / count;
   }
 
+  // Mean coherence product over node pairs, from (Σc)² = Σc² + 2·Σ pairs
   private calculateFieldCoherence(): number {
-    const nodes = Array.from(this.harmonicField.values());
-    if (nodes.length < 2) return 0;
-    
-    let totalCoherence = 0;
-    let pairCount = 0;
-    
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const coherence = nodes[i].quantumCoherence.coherence * nodes[j].quantumCoherence.coherence;
-        totalCoherence += coherence;
-        pairCount++;
-      }
-    }
+    const count = this.harmonicField.size;
+    if (count < 2) return 0;
     
-    return pairCount > 0 ? totalCoherence / pairCount : 0;
+    const totalCoherence = (this.coherenceSum ** 2 - this.coherenceSquareSum) / 2;
+    const pairCount = count * (count - 1) / 2;
+    return totalCoherence / pairCount;
+  }
+}
+
+function readCutoffRadius(fallback: number): number {
+  const value = Number(process.env.HARMONIC_FIELD_CUTOFF);
+  return value > 0 ? value : fallback;
+}
+
+// Rejects streams the field stopped before applying, e.g. on shutdown
+export class FieldStoppedError extends Error {
+  constructor() {
+    super('field_stopped: the field stopped before applying the stream');
+    this.name = 'FieldStoppedError';
   }
 }
 
@@ -367,10 +842,35 @@ export interface HarmonicUpdate {
   harmonicCascades: ResonanceCascade[];
   activeNodes: number;
   phiHarmonics: PhiHarmonic[];
+  // Musical relationships between node frequencies; page through them with getRelationships
+  intervalsCount: number;
+  chordsCount: number;
+  fibonacciChainsCount: number;
   quantumField: QuantumFieldPoint[];
+  entanglements: QuantumEntanglement[];
+  portalState: PortalState;
   timestamp: number;
 }
 
+// A node in the field indexes, with its insertion order
+interface IndexedNode {
+  node: HarmonicNode;
+  order: number;
+}
+
+export interface FieldProcessorOptions {
+  cutoffRadius?: number; // Defaults to DEFAULT_CUTOFF_RADIUS
+}
+
+interface QueuedStream {
+  frequency: number;
+  amplitude: number;
+  userId: string;
+  phase: number;
+  resolve: (update: HarmonicUpdate) => void;
+  reject: (error: FieldStoppedError) => void;
+}
+
 export interface ResonanceCascade {
   sourceNode: string;
   resonanceStrength: number;
@@ -387,6 +887,33 @@ export interface PhiHarmonic {
   type: 'golden_ratio' | 'golden_square';
 }
 
+export type EntanglementType = 'harmonic' | 'quantum';
+
+export type BellStateType = 'phi_plus' | 'phi_minus' | 'psi_plus' | 'psi_minus';
+
+export interface BellState {
+  alpha: number;
+  beta: number;
+  coherence: number;
+  entanglementStrength: number;
+  type: BellStateType;
+}
+
+export interface QuantumEntanglement {
+  id: string;
+  node1: string;
+  node2: string;
+  entanglementType: EntanglementType;
+  compatibility: number;
+  bellState: BellState;
+  createdAt: number;
+  lastUpdate: number;
+}
+
+export type EntanglementAttempt =
+  | { success: true; entanglement: QuantumEntanglement }
+  | { success: false; reason: 'node_not_found' | 'self_entanglement' | 'incompatible'; compatibility: number };
+
 export interface QuantumFieldPoint {
   x: number;
   y: number;
@@ -400,6 +927,10 @@ export interface FieldStats {
   globalResonance: number;
   averageFrequency: number;
   phiHarmonicsCount: number;
+  intervalsCount: number;
+  chordsCount: number;
+  fibonacciChainsCount: number;
+  entanglementsCount: number;
   fieldCoherence: number;
   lastUpdate: number;
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FieldRuntime } from './FieldRuntime';
+import { HarmonicRelationshipTracker } from './HarmonicRelationships';
+
+const SOLFEGGIO = [174, 285, 396, 417, 432, 528, 639, 741, 852, 963];
+
+const runtime = FieldRuntime.getInstance();
+
+beforeEach(() => {
+  runtime.setSeed(25);
+});
+
+function tracker(frequencies: Record<string, number>): HarmonicRelationshipTracker {
+  const relationships = new HarmonicRelationshipTracker();
+  Object.entries(frequencies).forEach(([id, frequency]) => relationships.set(id, frequency));
+  return relationships;
+}
+
+describe('HarmonicRelationshipTracker', () => {
+  it('detects a major triad and its intervals', () => {
+    const relationships = tracker({ root: 400, third: 500, fifth: 600 });
+    const { intervals, chords } = relationships.list();
+
+    expect(chords).toEqual([{ root: 'root', nodes: ['root', 'third', 'fifth'], quality: 'major', strength: 1 }]);
+    expect(intervals.map(({ node1, node2, interval }) => [node1, node2, interval])).toEqual([
+      ['root', 'fifth', 'perfect_fifth'],
+      ['root', 'third', 'major_third'],
+      ['third', 'fifth', 'minor_third']
+    ]);
+  });
+
+  it('detects a chord with tones octaves above the root', () => {
+    const { chords } = tracker({ root: 200, third: 1000, fifth: 600 }).list();
+    expect(chords.map(({ root, quality }) => [root, quality])).toEqual([['root', 'major']]);
+  });
+
+  it('detects a unison and lets each node of it head the chord', () => {
+    const { intervals, chords } = tracker({ a: 400, b: 400.5, third: 500, fifth: 600 }).list();
+
+    const unison = intervals.find(({ interval }) => interval === 'unison');
+    expect(unison).toMatchObject({ node1: 'a', node2: 'b', octaves: 0 });
+    expect(unison!.cents).toBeCloseTo(2.16, 2);
+    expect(unison!.strength).toBeGreaterThan(0.8);
+    expect(chords.map(({ root, quality }) => [root, quality]).sort()).toEqual([['a', 'major'], ['b', 'major']]);
+  });
+
+  it('leaves out intervals beyond the tolerance', () => {
+    expect(tracker({ a: 400, b: 410 }).counts()).toEqual({ intervals: 0, chords: 0, fibonacciChains: 0 });
+  });
+
+  it('detects a Fibonacci chain from its 2:1 start', () => {
+    const { fibonacciChains } = tracker({ f100: 100, f200: 200, f300: 300, f500: 500, f800: 800 }).list();
+    expect(fibonacciChains).toEqual([
+      { nodes: ['f100', 'f200', 'f300', 'f500', 'f800'], terms: [1, 2, 3, 5, 8], strength: 1 }
+    ]);
+  });
+
+  it('detects a Fibonacci chain from a later ratio', () => {
+    const { fibonacciChains } = tracker({ f300: 300, f500: 500.5, f800: 800 }).list();
+    expect(fibonacciChains).toHaveLength(1);
+    expect(fibonacciChains[0]).toMatchObject({ nodes: ['f300', 'f500', 'f800'], terms: [3, 5, 8] });
+  });
+
+  it('updates when a node retunes or leaves', () => {
+    const relationships = tracker({ root: 400, third: 500, fifth: 600 });
+    relationships.set('third', 480);
+    expect(relationships.list().chords.map(({ quality }) => quality)).toEqual(['minor']);
+
+    relationships.delete('fifth');
+    expect(relationships.counts()).toEqual({ intervals: 1, chords: 0, fibonacciChains: 0 });
+  });
+
+  it('matches a tracker built from the final frequencies after random updates', () => {
+    const relationships = new HarmonicRelationshipTracker();
+    const frequencies = new Map<string, number>();
+    for (let step = 0; step < 2000; step++) {
+      const id = `node_${Math.floor(runtime.next() * 150)}`;
+      if (runtime.next() < 0.1) {
+        relationships.delete(id);
+        frequencies.delete(id);
+      } else {
+        const frequency = SOLFEGGIO[Math.floor(runtime.next() * SOLFEGGIO.length)] * (0.9 + runtime.next() * 0.2);
+        relationships.set(id, frequency);
+        frequencies.set(id, frequency);
+      }
+      if (step % 97 === 0) relationships.counts();
+    }
+
+    const fresh = tracker(Object.fromEntries([...frequencies].reverse()));
+    expect(relationships.counts()).toEqual(fresh.counts());
+    expect(relationships.list()).toEqual(fresh.list());
+    expect(relationships.counts().chords).toBeGreaterThan(0);
+    expect(relationships.counts().fibonacciChains).toBeGreaterThan(0);
+  });
+
+  it('pages through a list strongest first', () => {
+    const relationships = tracker({ a: 100, b: 200, c: 300, d: 500, e: 800, f: 1300 });
+    const all = relationships.list().intervals;
+
+    const first = relationships.page('intervals', 4);
+    expect(first).toMatchObject({ kind: 'intervals', total: all.length, nextCursor: 4 });
+    expect(first.items).toEqual(all.slice(0, 4));
+
+    const rest = relationships.page('intervals', 50, first.nextCursor!);
+    expect(rest.items).toEqual(all.slice(4));
+    expect(rest.nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,520 @@
+import { FrequencyIndex } from './FieldIndex';
+
+// Musical relationships between active node frequencies: just-intonation intervals with
+// octave equivalence, the chords they form, and Fibonacci ratio chains. A changed node only
+// updates its interval partners and the chains that looked up its old or new frequency;
+// the full lists are built on request.
+
+export type IntervalName =
+  | 'unison'
+  | 'octave'
+  | 'minor_second'
+  | 'major_second'
+  | 'minor_third'
+  | 'major_third'
+  | 'perfect_fourth'
+  | 'perfect_fifth'
+  | 'minor_sixth'
+  | 'major_sixth'
+  | 'minor_seventh'
+  | 'major_seventh';
+
+export type ChordQuality =
+  | 'major'
+  | 'minor'
+  | 'sus2'
+  | 'sus4'
+  | 'major_seventh'
+  | 'dominant_seventh'
+  | 'minor_seventh';
+
+export interface MusicalInterval {
+  node1: string; // Lower frequency
+  node2: string;
+  interval: IntervalName;
+  justRatio: [number, number]; // Within one octave; the nodes are this times 2^octaves apart
+  octaves: number;
+  cents: number; // Measured distance between the nodes
+  strength: number; // 1 at the just ratio, 0 at the tolerance
+}
+
+export interface Chord {
+  root: string;
+  nodes: string[]; // Root first, then the chord tones in order
+  quality: ChordQuality;
+  strength: number; // The weakest interval from the root
+}
+
+export interface FibonacciChain {
+  nodes: string[]; // Ascending frequency
+  terms: number[]; // Consecutive Fibonacci numbers the frequencies are proportional to
+  strength: number; // The weakest step
+}
+
+export interface HarmonicRelationships {
+  intervals: MusicalInterval[];
+  chords: Chord[];
+  fibonacciChains: FibonacciChain[];
+}
+
+export type RelationshipKind = keyof HarmonicRelationships;
+
+export interface RelationshipCounts {
+  intervals: number;
+  chords: number;
+  fibonacciChains: number;
+}
+
+export interface RelationshipPage<K extends RelationshipKind = RelationshipKind> {
+  kind: K;
+  items: HarmonicRelationships[K];
+  nextCursor: number | null; // Offset of the next page
+  total: number;
+}
+
+interface ChordTone {
+  id: string;
+  strength: number;
+}
+
+// Where a node's partners in one interval are, either above or below it
+interface PartnerRange {
+  low: number; // Frequency factors
+  high: number;
+  cents: number; // From the node to its partner
+  interval: IntervalName;
+  justRatio: [number, number];
+  octaves: number;
+  tone: number | undefined; // The partner's interval class above the node; none for octaves
+}
+
+export const INTERVAL_TOLERANCE_CENTS = 15; // Just intervals are at least 70 cents apart
+export const MAX_INTERVAL_OCTAVES = 3; // Nodes further apart are not compared
+
+type IntervalClass = Exclude<IntervalName, 'octave'>;
+
+// 5-limit just intervals, closed under inversion so either node of a pair can be a root
+const JUST_INTERVALS: { name: IntervalClass; ratio: [number, number]; inversion: IntervalClass }[] = [
+  { name: 'unison', ratio: [1, 1], inversion: 'unison' },
+  { name: 'minor_second', ratio: [16, 15], inversion: 'major_seventh' },
+  { name: 'major_second', ratio: [9, 8], inversion: 'minor_seventh' },
+  { name: 'minor_third', ratio: [6, 5], inversion: 'major_sixth' },
+  { name: 'major_third', ratio: [5, 4], inversion: 'minor_sixth' },
+  { name: 'perfect_fourth', ratio: [4, 3], inversion: 'perfect_fifth' },
+  { name: 'perfect_fifth', ratio: [3, 2], inversion: 'perfect_fourth' },
+  { name: 'minor_sixth', ratio: [8, 5], inversion: 'major_third' },
+  { name: 'major_sixth', ratio: [5, 3], inversion: 'minor_third' },
+  { name: 'minor_seventh', ratio: [16, 9], inversion: 'major_second' },
+  { name: 'major_seventh', ratio: [15, 8], inversion: 'minor_second' }
+];
+
+// Chord tones as intervals above the root, octaves folded
+const CHORD_TEMPLATES: { quality: ChordQuality; tones: IntervalClass[] }[] = [
+  { quality: 'major', tones: ['major_third', 'perfect_fifth'] },
+  { quality: 'minor', tones: ['minor_third', 'perfect_fifth'] },
+  { quality: 'sus2', tones: ['major_second', 'perfect_fifth'] },
+  { quality: 'sus4', tones: ['perfect_fourth', 'perfect_fifth'] },
+  { quality: 'major_seventh', tones: ['major_third', 'perfect_fifth', 'major_seventh'] },
+  { quality: 'dominant_seventh', tones: ['major_third', 'perfect_fifth', 'minor_seventh'] },
+  { quality: 'minor_seventh', tones: ['minor_third', 'perfect_fifth', 'minor_seventh'] }
+];
+
+// A chain starts with two nodes in one of these ratios, 2:1 to 34:21; each later node is the
+// sum of the two before it
+const FIBONACCI = [1, 2, 3, 5, 8, 13, 21, 34];
+
+const CLASS_INDEX: Map<IntervalName, number> = new Map(JUST_INTERVALS.map(({ name }, i) => [name, i]));
+const INVERSION_INDEX = JUST_INTERVALS.map(({ inversion }) => CLASS_INDEX.get(inversion)!);
+const CHORD_TONE_INDEXES = CHORD_TEMPLATES.map(({ tones }) => tones.map(tone => CLASS_INDEX.get(tone)!));
+const TOLERANCE_FACTOR = Math.pow(2, INTERVAL_TOLERANCE_CENTS / 1200);
+const BUCKET_CENTS = 2 * INTERVAL_TOLERANCE_CENTS; // A lookup spans at most two buckets
+
+// Every interval up to MAX_INTERVAL_OCTAVES, above and below a node. The ranges are
+// narrower than the gaps between intervals, so a partner falls in exactly one.
+const PARTNER_RANGES: PartnerRange[] = (() => {
+  const ranges: PartnerRange[] = [];
+  const partnerRange = (offset: number, range: Omit<PartnerRange, 'low' | 'high' | 'cents'>): PartnerRange => ({
+    low: Math.pow(2, offset / 1200) / TOLERANCE_FACTOR * (1 - 1e-9), // Padded for rounding
+    high: Math.pow(2, offset / 1200) * TOLERANCE_FACTOR * (1 + 1e-9),
+    cents: offset,
+    ...range
+  });
+
+  for (let octaves = 0; octaves <= MAX_INTERVAL_OCTAVES; octaves++) {
+    JUST_INTERVALS.forEach(({ name, ratio }, index) => {
+      const offset = cents(ratio[0] / ratio[1]) + octaves * 1200;
+      if (offset > MAX_INTERVAL_OCTAVES * 1200) return;
+
+      const octave = name === 'unison' && octaves > 0;
+      const interval = octave ? 'octave' : name;
+      const tone = octave ? undefined : index;
+      ranges.push(partnerRange(offset, { interval, justRatio: ratio, octaves, tone }));
+      if (offset > 0) {
+        ranges.push(partnerRange(-offset, {
+          interval,
+          justRatio: ratio,
+          octaves,
+          tone: tone === undefined ? undefined : INVERSION_INDEX[tone]
+        }));
+      }
+    });
+  }
+  return ranges;
+})();
+
+// The ranges holding a node's partners of each interval class above it
+const TONE_RANGES = JUST_INTERVALS.map((_, tone) => PARTNER_RANGES.filter(range => range.tone === tone));
+
+export class HarmonicRelationshipTracker {
+  private frequencies = new FrequencyIndex<string>();
+  private nodeFrequencies: Map<string, number> = new Map();
+  private intervalCount = 0;
+
+  // Strongest partner per interval class above each root, and the chords each root heads
+  private tones: Map<string, (ChordTone | undefined)[]> = new Map();
+  private chords: Map<string, Chord[]> = new Map();
+  private chordCount = 0;
+  private staleRoots: Set<string> = new Set(); // Tones changed since their chords were derived
+
+  // Chains by lowest node. A node's chains are derived again when a node enters or leaves
+  // a frequency range it looked up, tracked in buckets one lookup wide.
+  private chains: Map<string, FibonacciChain[]> = new Map();
+  private chainCount = 0;
+  private staleChainStarts: Set<string> = new Set();
+  private watchers: Map<number, Set<string>> = new Map(); // Bucket → nodes that looked there
+  private watchedBuckets: Map<string, number[]> = new Map();
+
+  private listed: HarmonicRelationships | null = null; // Until the next change
+
+  // Insert a node, or move one to a new frequency
+  set(id: string, frequency: number): void {
+    if (this.nodeFrequencies.get(id) === frequency) return;
+
+    this.delete(id);
+    this.frequencies.set(id, frequency, id);
+    this.nodeFrequencies.set(id, frequency);
+    this.tones.set(id, new Array(JUST_INTERVALS.length));
+    this.staleRoots.add(id);
+    this.staleChainStarts.add(id);
+    this.touch(frequency);
+
+    this.forEachPartner(id, frequency, PARTNER_RANGES, (other, { tone }, strength) => {
+      this.intervalCount++;
+      this.offerTone(id, other, tone, strength);
+      this.offerTone(other, id, invert(tone), strength);
+    });
+  }
+
+  delete(id: string): void {
+    const frequency = this.nodeFrequencies.get(id);
+    if (frequency === undefined) return;
+
+    this.frequencies.delete(id);
+    this.nodeFrequencies.delete(id);
+    this.forEachPartner(id, frequency, PARTNER_RANGES, (other, { tone }) => {
+      this.intervalCount--;
+      this.withdrawTone(other, id, invert(tone));
+    });
+
+    this.tones.delete(id);
+    this.chordCount -= this.chords.get(id)?.length ?? 0;
+    this.chords.delete(id);
+    this.staleRoots.delete(id);
+
+    this.chainCount -= this.chains.get(id)?.length ?? 0;
+    this.chains.delete(id);
+    this.staleChainStarts.delete(id);
+    this.unwatch(id);
+    this.touch(frequency);
+  }
+
+  clear(): void {
+    this.frequencies.clear();
+    this.nodeFrequencies.clear();
+    this.intervalCount = 0;
+    this.tones.clear();
+    this.chords.clear();
+    this.chordCount = 0;
+    this.staleRoots.clear();
+    this.chains.clear();
+    this.chainCount = 0;
+    this.staleChainStarts.clear();
+    this.watchers.clear();
+    this.watchedBuckets.clear();
+    this.listed = null;
+  }
+
+  counts(): RelationshipCounts {
+    this.refresh();
+    return {
+      intervals: this.intervalCount,
+      chords: this.chordCount,
+      fibonacciChains: this.chainCount
+    };
+  }
+
+  // Every relationship, strongest first
+  list(): HarmonicRelationships {
+    this.refresh();
+    if (!this.listed) {
+      this.listed = {
+        intervals: this.listIntervals().sort((a, b) =>
+          b.strength - a.strength || compareIds(a.node1, b.node1) || compareIds(a.node2, b.node2)),
+        chords: Array.from(this.chords.values()).flat().sort((a, b) =>
+          b.strength - a.strength || compareIds(a.root, b.root) || compareIds(a.quality, b.quality)),
+        fibonacciChains: Array.from(this.chains.values()).flat().sort((a, b) =>
+          b.strength - a.strength || compareIds(a.nodes[0], b.nodes[0]) || a.terms[0] - b.terms[0])
+      };
+    }
+    return this.listed;
+  }
+
+  // One page of a relationship list; the cursor is the offset of the page's first entry
+  page<K extends RelationshipKind>(kind: K, limit: number, cursor: number = 0): RelationshipPage<K> {
+    const all = this.list()[kind];
+
+    return {
+      kind,
+      items: all.slice(cursor, cursor + limit) as HarmonicRelationships[K],
+      nextCursor: cursor + limit < all.length ? cursor + limit : null,
+      total: all.length
+    };
+  }
+
+  // Derive chords and chains again where their inputs changed
+  private refresh(): void {
+    if (this.staleRoots.size === 0 && this.staleChainStarts.size === 0) return;
+    this.listed = null;
+
+    this.staleRoots.forEach(root => {
+      const chords = this.detectChords(root);
+      this.chordCount += chords.length - (this.chords.get(root)?.length ?? 0);
+      this.chords.set(root, chords);
+    });
+    this.staleRoots.clear();
+
+    this.staleChainStarts.forEach(first => {
+      this.unwatch(first);
+      const chains = this.detectFibonacciChains(first);
+      this.chainCount += chains.length - (this.chains.get(first)?.length ?? 0);
+      this.chains.set(first, chains);
+    });
+    this.staleChainStarts.clear();
+  }
+
+  // Each pair once, from its lower node
+  private listIntervals(): MusicalInterval[] {
+    const intervals: MusicalInterval[] = [];
+    this.nodeFrequencies.forEach((frequency, id) => {
+      this.forEachPartner(id, frequency, PARTNER_RANGES, (other, range, strength) => {
+        const otherFrequency = this.nodeFrequencies.get(other)!;
+        const lower = range.cents === 0
+          ? frequency < otherFrequency || (frequency === otherFrequency && id < other)
+          : range.cents > 0;
+        if (!lower) return;
+
+        intervals.push({
+          node1: id,
+          node2: other,
+          interval: range.interval,
+          justRatio: range.justRatio,
+          octaves: range.octaves,
+          cents: cents(otherFrequency / frequency),
+          strength
+        });
+      });
+    });
+    return intervals;
+  }
+
+  // Nodes in the given interval ranges of a node, with their strength
+  private forEachPartner(
+    id: string,
+    frequency: number,
+    ranges: PartnerRange[],
+    fn: (other: string, range: PartnerRange, strength: number) => void
+  ): void {
+    ranges.forEach(range => {
+      this.frequencies.forEachInRange(frequency * range.low, frequency * range.high, (other, otherFrequency) => {
+        if (other === id) return;
+        // Measured upward from the lower node so both ends of a pair agree on its strength
+        const ratio = otherFrequency > frequency ? otherFrequency / frequency : frequency / otherFrequency;
+        const deviation = Math.abs(cents(ratio) - Math.abs(range.cents));
+        if (deviation <= INTERVAL_TOLERANCE_CENTS) {
+          fn(other, range, 1 - deviation / INTERVAL_TOLERANCE_CENTS);
+        }
+      });
+    });
+  }
+
+  private offerTone(root: string, other: string, tone: number | undefined, strength: number): void {
+    if (tone === undefined) return; // Octaves
+
+    const tones = this.tones.get(root)!;
+    if (isStronger(strength, other, tones[tone])) {
+      tones[tone] = { id: other, strength };
+      this.staleRoots.add(root);
+    }
+  }
+
+  // Only the strongest partner of a class leaving means looking for the next one
+  private withdrawTone(root: string, other: string, tone: number | undefined): void {
+    const tones = this.tones.get(root)!;
+    if (tone === undefined || tones[tone]?.id !== other) return;
+
+    tones[tone] = undefined;
+    this.forEachPartner(root, this.nodeFrequencies.get(root)!, TONE_RANGES[tone], (candidate, _, strength) => {
+      if (isStronger(strength, candidate, tones[tone])) {
+        tones[tone] = { id: candidate, strength };
+      }
+    });
+    this.staleRoots.add(root);
+  }
+
+  // The root's chord for each quality whose tones are all present
+  private detectChords(root: string): Chord[] {
+    const tones = this.tones.get(root)!;
+    const chords: Chord[] = [];
+
+    CHORD_TEMPLATES.forEach(({ quality }, i) => {
+      const chordTones = CHORD_TONE_INDEXES[i].map(tone => tones[tone]);
+      if (chordTones.some(tone => !tone)) return;
+
+      chords.push({
+        root,
+        nodes: [root, ...chordTones.map(tone => tone!.id)],
+        quality,
+        strength: Math.min(...chordTones.map(tone => tone!.strength))
+      });
+    });
+    return chords;
+  }
+
+  // Maximal chains from a node, each extended from its lowest pair with the closest next node.
+  // A pair that continues a chain from the node one step below it is left to that chain.
+  private detectFibonacciChains(first: string): FibonacciChain[] {
+    const chains: FibonacciChain[] = [];
+    const firstFrequency = this.nodeFrequencies.get(first)!;
+    const find = (target: number, exclude: string = first) => {
+      this.watch(first, target);
+      return this.closestNode(target, exclude);
+    };
+
+    // The ratios near φ overlap, so each second node takes the ratio it is closest to
+    const starts: Map<string, { k: number; frequency: number; strength: number }> = new Map();
+    for (let k = 0; k < FIBONACCI.length - 1; k++) {
+      const match = find(firstFrequency * FIBONACCI[k + 1] / FIBONACCI[k]);
+      if (match && match.strength > (starts.get(match.id)?.strength ?? -1)) {
+        starts.set(match.id, { k, frequency: match.frequency, strength: match.strength });
+      }
+    }
+
+    starts.forEach(({ k, frequency, strength: startStrength }, second) => {
+      // Below a 2:1 start would be a unison, which no chain starts with
+      if (k > 0) {
+        const below = find(frequency - firstFrequency);
+        if (below && below.id !== second && find(below.frequency + firstFrequency, below.id)?.id === second) return;
+      }
+
+      const nodes = [first, second];
+      const frequencies = [firstFrequency, frequency];
+      const terms = [FIBONACCI[k], FIBONACCI[k + 1]];
+      let strength = startStrength;
+
+      let next = find(frequencies[0] + frequencies[1]);
+      while (next && !nodes.includes(next.id)) {
+        nodes.push(next.id);
+        frequencies.push(next.frequency);
+        terms.push(terms[terms.length - 2] + terms[terms.length - 1]);
+        strength = Math.min(strength, next.strength);
+        next = find(frequencies[frequencies.length - 2] + frequencies[frequencies.length - 1]);
+      }
+
+      if (nodes.length >= 3) {
+        chains.push({ nodes, terms, strength });
+      }
+    });
+    return chains;
+  }
+
+  // The node nearest a target frequency within the tolerance, other than exclude
+  private closestNode(target: number, exclude: string): { id: string; frequency: number; strength: number } | null {
+    let closestId: string | null = null;
+    let closestFrequency = 0;
+    let closestRatio = Infinity; // Orders like cents; only the closest is measured in cents
+
+    this.frequencies.forEachInRange(target / TOLERANCE_FACTOR, target * TOLERANCE_FACTOR, (id, frequency) => {
+      if (id === exclude) return;
+      const ratio = frequency > target ? frequency / target : target / frequency;
+      if (ratio < closestRatio || (ratio === closestRatio && id < closestId!)) {
+        closestId = id;
+        closestFrequency = frequency;
+        closestRatio = ratio;
+      }
+    });
+    if (closestId === null) return null;
+
+    const strength = 1 - cents(closestRatio) / INTERVAL_TOLERANCE_CENTS;
+    return strength >= 0 ? { id: closestId, frequency: closestFrequency, strength } : null;
+  }
+
+  // Note that first looked up the frequencies within the tolerance of target
+  private watch(first: string, target: number): void {
+    let buckets = this.watchedBuckets.get(first);
+    if (!buckets) {
+      buckets = [];
+      this.watchedBuckets.set(first, buckets);
+    }
+
+    const last = bucketOf(target * TOLERANCE_FACTOR);
+    for (let bucket = bucketOf(target / TOLERANCE_FACTOR); bucket <= last; bucket++) {
+      if (buckets.includes(bucket)) continue;
+      buckets.push(bucket);
+      let watchers = this.watchers.get(bucket);
+      if (!watchers) {
+        watchers = new Set();
+        this.watchers.set(bucket, watchers);
+      }
+      watchers.add(first);
+    }
+  }
+
+  private unwatch(first: string): void {
+    this.watchedBuckets.get(first)?.forEach(bucket => {
+      const watchers = this.watchers.get(bucket)!;
+      watchers.delete(first);
+      if (watchers.size === 0) {
+        this.watchers.delete(bucket);
+      }
+    });
+    this.watchedBuckets.delete(first);
+  }
+
+  // A node arrived at or left frequency; chains that looked there are stale
+  private touch(frequency: number): void {
+    this.listed = null;
+    this.watchers.get(bucketOf(frequency))?.forEach(first => this.staleChainStarts.add(first));
+  }
+}
+
+// The interval class of the lower node above the upper one, octaves folded
+function invert(tone: number | undefined): number | undefined {
+  return tone === undefined ? undefined : INVERSION_INDEX[tone];
+}
+
+function cents(ratio: number): number {
+  return 1200 * Math.log2(ratio);
+}
+
+function bucketOf(frequency: number): number {
+  return Math.floor(cents(frequency) / BUCKET_CENTS);
+}
+
+// Stronger, with ties going to the lower id so the result does not depend on update order
+function isStronger(strength: number, id: string, current: ChordTone | undefined): boolean {
+  return !current || strength > current.strength || (strength === current.strength && id < current.id);
+}
+
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FieldRuntime, ManualClock } from './FieldRuntime';
+import { PortalInput, PortalState, PortalStream, Room64Portal } from './Room64Portal';
+
+const START = 1_700_000_000_000;
+
+let clock: ManualClock;
+let portal: Room64Portal;
+
+beforeEach(() => {
+  clock = new ManualClock(START);
+  FieldRuntime.getInstance().setClock(clock);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  portal = new Room64Portal();
+});
+
+const activating: PortalStream = { userId: 'node_a', frequency: 480, amplitude: 0.9, phiAlignment: 0.95, cascades: 0 };
+const quiet: PortalStream = { userId: 'node_b', frequency: 200, amplitude: 0.3, phiAlignment: 0.1, cascades: 0 };
+const cascading: PortalStream = { ...quiet, userId: 'node_c', cascades: 2 };
+
+// One field tick at the clock's time, then the clock moves on by one tick
+function tick(streams: PortalStream[], field: Partial<PortalInput> = {}): PortalState {
+  const state = portal.observe({ streams, fieldCoherence: 0.3, phiHarmonics: 0, timestamp: clock.now(), ...field });
+  clock.advance(100);
+  return state;
+}
+
+function open(): void {
+  tick([activating]);
+  tick([activating]);
+  expect(portal.getState()).toBe('portal_active');
+}
+
+describe('Room64Portal', () => {
+  it('opens on an activation and activates on another within the window', () => {
+    expect(tick([quiet])).toBe('standby');
+    expect(tick([activating])).toBe('portal_ready');
+    expect(tick([activating])).toBe('portal_active');
+
+    expect(portal.getStatus().history.map(({ reason, triggeredBy }) => [reason, triggeredBy])).toEqual([
+      ['activation_conditions_met', 'node_a'],
+      ['sustained_activation', 'node_a']
+    ]);
+  });
+
+  it('makes at most one transition per tick', () => {
+    expect(tick([activating, activating, cascading])).toBe('portal_ready');
+  });
+
+  it('needs the second activation within the activation window', () => {
+    tick([activating]);
+    clock.advance(10001);
+    expect(tick([activating])).toBe('portal_ready');
+    expect(tick([activating])).toBe('portal_active');
+  });
+
+  it('stays ready through cascades until activated again', () => {
+    tick([activating]);
+    expect(tick([cascading])).toBe('portal_ready');
+    expect(tick([quiet])).toBe('portal_ready');
+    expect(portal.getStatus().history.map(({ to }) => to)).toEqual(['portal_ready']);
+  });
+
+  it('ignores cascades in standby', () => {
+    expect(tick([cascading])).toBe('standby');
+  });
+
+  it('enters void transitions from an open portal and leaves once cascades settle', () => {
+    open();
+    expect(tick([cascading])).toBe('void_transitions');
+    expect(portal.getStatus().history.at(-1)).toMatchObject({ reason: 'resonance_cascade', triggeredBy: 'node_c' });
+
+    // Streams without cascades do not end it early, and further cascades extend it
+    expect(tick([quiet])).toBe('void_transitions');
+    clock.advance(1500);
+    expect(tick([cascading])).toBe('void_transitions');
+    clock.advance(1500);
+    expect(tick([])).toBe('void_transitions');
+    clock.advance(500);
+    expect(tick([])).toBe('portal_active');
+    expect(portal.getStatus().history.at(-1)).toMatchObject({ from: 'void_transitions', reason: 'cascade_subsided' });
+  });
+
+  it('settles into spiral_stable on coherent geometry and back when it is lost', () => {
+    open();
+    expect(tick([], { fieldCoherence: 0.7, phiHarmonics: 2 })).toBe('spiral_stable');
+    expect(tick([], { fieldCoherence: 0.7, phiHarmonics: 0 })).toBe('portal_active');
+    expect(tick([], { fieldCoherence: 0.7, phiHarmonics: 1 })).toBe('spiral_stable');
+    expect(tick([cascading], { fieldCoherence: 0.7, phiHarmonics: 1 })).toBe('void_transitions');
+  });
+
+  it('returns to standby 30s after the last activation', () => {
+    open();
+    clock.advance(29000);
+    expect(tick([quiet])).toBe('portal_active');
+    clock.advance(1000);
+    expect(tick([quiet])).toBe('standby');
+    expect(portal.getStatus().history.at(-1)).toMatchObject({ reason: 'activation_timeout', triggeredBy: null });
+  });
+
+  it('does not flip between cascade states on alternating streams', () => {
+    open();
+    for (let i = 0; i < 20; i++) {
+      tick([i % 2 === 0 ? cascading : quiet]);
+    }
+    expect(portal.getStatus().history.filter(({ to }) => to === 'void_transitions')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,176 @@
+import { EventEmitter } from 'events';
+import { FieldRuntime } from './FieldRuntime';
+
+// Room 64 portal state machine driven by each field tick's streams and cascades
+export class Room64Portal extends EventEmitter {
+  private state: PortalState = 'standby';
+  private stateSince = FieldRuntime.getInstance().now();
+  private lastActivation = 0;
+  private lastCascade = 0;
+  private history: PortalTransition[] = [];
+  private maxHistory = 64;
+  private activationWindow = 10000; // Re-activation within 10s keeps the portal open
+  private standbyTimeout = 30000; // Portal closes after 30s without activation
+  private cascadeSettleTime = 2000; // Void transitions end after 2s without a cascade
+
+  // Feed one field tick into the state machine; at most one transition per tick
+  observe(input: PortalInput): PortalState {
+    const now = input.timestamp;
+    const activation = input.streams.find(stream => this.meetsActivationConditions(stream));
+    const cascade = input.streams.find(stream => stream.cascades > 0);
+
+    this.checkTimeout(now);
+    if (cascade) {
+      this.lastCascade = now;
+    }
+
+    if (activation) {
+      const previous = this.lastActivation;
+      this.lastActivation = now;
+      if (this.state === 'standby') {
+        this.transition('portal_ready', 'activation_conditions_met', activation.userId, now);
+        return this.state;
+      }
+      if (this.state === 'portal_ready' && now - previous <= this.activationWindow) {
+        this.transition('portal_active', 'sustained_activation', activation.userId, now);
+        return this.state;
+      }
+    }
+
+    // Only an open portal is thrown into void transitions
+    if (cascade && (this.state === 'portal_active' || this.state === 'spiral_stable')) {
+      this.transition('void_transitions', 'resonance_cascade', cascade.userId, now);
+    } else if (this.state === 'void_transitions') {
+      if (now - this.lastCascade >= this.cascadeSettleTime) {
+        this.transition('portal_active', 'cascade_subsided', null, now);
+      }
+    } else if (this.state === 'portal_active' && input.fieldCoherence >= 0.6 && input.phiHarmonics > 0) {
+      this.transition('spiral_stable', 'coherent_field_geometry', null, now);
+    } else if (this.state === 'spiral_stable' && (input.fieldCoherence < 0.6 || input.phiHarmonics === 0)) {
+      this.transition('portal_active', 'geometry_lost', null, now);
+    }
+
+    return this.state;
+  }
+
+  // Close the portal once activation has lapsed
+  checkTimeout(now: number): void {
+    if (this.state !== 'standby' && now - this.lastActivation > this.standbyTimeout) {
+      this.transition('standby', 'activation_timeout', null, now);
+    }
+  }
+
+  // Note an activation observed on another server instance so timeouts agree
+  syncActivation(timestamp: number): void {
+    this.lastActivation = Math.max(this.lastActivation, timestamp);
+  }
+
+  // Follow a transition made on another server instance
+  applyRemoteTransition(transition: PortalTransition, lastActivation: number | null): void {
+    if (lastActivation !== null) {
+      this.syncActivation(lastActivation);
+    }
+    if (transition.to === this.state) return;
+
+    // A remote timeout loses to a fresher activation seen here
+    if (transition.reason === 'activation_timeout' && transition.timestamp - this.lastActivation <= this.standbyTimeout) {
+      return;
+    }
+
+    this.state = transition.to;
+    this.stateSince = transition.timestamp;
+    this.history.push(transition);
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+
+    this.emit('transition', transition);
+  }
+
+  getState(): PortalState {
+    return this.state;
+  }
+
+  getLastActivation(): number | null {
+    return this.lastActivation || null;
+  }
+
+  getStatus(): PortalStatus {
+    return {
+      state: this.state,
+      since: this.stateSince,
+      lastActivation: this.lastActivation || null,
+      history: [...this.history]
+    };
+  }
+
+  // Frequency 432-528 Hz, amplitude > 0.7, phi alignment > 0.8
+  private meetsActivationConditions(input: PortalStream): boolean {
+    return input.frequency >= 432 && input.frequency <= 528 &&
+           input.amplitude > 0.7 &&
+           Math.abs(input.phiAlignment) > 0.8;
+  }
+
+  private transition(to: PortalState, reason: PortalTransitionReason, userId: string | null, now: number): void {
+    const transition: PortalTransition = {
+      from: this.state,
+      to,
+      reason,
+      triggeredBy: userId,
+      timestamp: now
+    };
+
+    this.state = to;
+    this.stateSince = now;
+    this.history.push(transition);
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+
+    console.log(`🌊 Room 64 Portal: ${transition.from} → ${to} (${reason})`);
+    this.emit('transition', transition);
+  }
+}
+
+// Type definitions
+export type PortalState = 'standby' | 'portal_ready' | 'portal_active' | 'spiral_stable' | 'void_transitions';
+
+export type PortalTransitionReason =
+  | 'activation_conditions_met'
+  | 'sustained_activation'
+  | 'coherent_field_geometry'
+  | 'geometry_lost'
+  | 'resonance_cascade'
+  | 'cascade_subsided'
+  | 'activation_timeout';
+
+// A stream applied in the tick, with the cascades it set off
+export interface PortalStream {
+  userId: string;
+  frequency: number;
+  amplitude: number;
+  phiAlignment: number;
+  cascades: number;
+}
+
+export interface PortalInput {
+  streams: PortalStream[];
+  fieldCoherence: number;
+  phiHarmonics: number;
+  timestamp: number;
+}
+
+export interface PortalTransition {
+  from: PortalState;
+  to: PortalState;
+  reason: PortalTransitionReason;
+  triggeredBy: string | null;
+  timestamp: number;
+}
+
+export interface PortalStatus {
+  state: PortalState;
+  since: number;
+  lastActivation: number | null;
+  history: PortalTransition[];
+}
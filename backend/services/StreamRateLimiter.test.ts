@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitedError, resolveClientIp, StreamRateLimiter, StreamSample } from './StreamRateLimiter';
+
+const START = 1_700_000_000_000;
+
+const steady: StreamSample = { frequency: 432, amplitude: 0.5 };
+
+let nodeCount = 0;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: START });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+// The limiter is a singleton with the default limits, so every test streams from its own nodes and IPs
+function node(): string {
+  return `node_${nodeCount++}`;
+}
+
+function ip(): string {
+  return `10.0.0.${nodeCount++}`;
+}
+
+function stream(nodeId: string, count: number, address: string | null = null, sample: StreamSample = steady) {
+  const limiter = StreamRateLimiter.getInstance();
+  return Array.from({ length: count }, () => limiter.check('websocket', nodeId, address, sample));
+}
+
+describe('StreamRateLimiter admission', () => {
+  it('admits a node burst of 40, then one message per 50ms', () => {
+    const nodeId = node();
+    expect(stream(nodeId, 40).every(({ allowed }) => allowed)).toBe(true);
+    expect(stream(nodeId, 1)).toEqual([{ allowed: false, reason: 'node_rate', retryAfterMs: 50, kick: false }]);
+
+    vi.advanceTimersByTime(50);
+    expect(stream(nodeId, 2).map(({ allowed }) => allowed)).toEqual([true, false]);
+  });
+
+  it('charges the cost of a batch', () => {
+    const limiter = StreamRateLimiter.getInstance();
+    const nodeId = node();
+    expect(limiter.check('trpc', nodeId, null, steady, 30)).toEqual({ allowed: true });
+    expect(limiter.check('trpc', nodeId, null, steady, 30)).toMatchObject({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  it('limits an IP across its nodes and refunds the node that was turned away', () => {
+    const address = ip();
+    const [first, second, third] = [node(), node(), node()];
+    stream(first, 40, address);
+    stream(second, 40, address);
+    expect(stream(third, 20, address).every(({ allowed }) => allowed)).toBe(true);
+
+    expect(stream(third, 1, address)).toEqual([{ allowed: false, reason: 'ip_rate', retryAfterMs: 20, kick: false }]);
+    // The third node still has its own 20 tokens once the IP frees up
+    vi.advanceTimersByTime(1000);
+    expect(stream(third, 20, address).every(({ allowed }) => allowed)).toBe(true);
+  });
+
+  it('rejects out-of-range frequencies without taking tokens', () => {
+    const nodeId = node();
+    expect(stream(nodeId, 1, null, { frequency: 20000, amplitude: 0.5 })).toEqual([
+      { allowed: false, reason: 'frequency_out_of_range', retryAfterMs: 0, kick: false }
+    ]);
+    expect(stream(nodeId, 40).every(({ allowed }) => allowed)).toBe(true);
+    expect(StreamRateLimiter.getInstance().getFlaggedNodes().find(flagged => flagged.nodeId === nodeId)).toEqual({
+      nodeId,
+      flags: ['frequency_out_of_range'],
+      strikes: 1,
+      blocked: false,
+      blockedUntil: null
+    });
+  });
+});
+
+describe('StreamRateLimiter blocking', () => {
+  it('blocks a node for a minute once 40 messages are turned away', () => {
+    const nodeId = node();
+    stream(nodeId, 40);
+    const rejected = stream(nodeId, 40);
+
+    expect(rejected.slice(0, 39).every(decision => !decision.allowed && decision.reason === 'node_rate')).toBe(true);
+    expect(rejected[39]).toEqual({ allowed: false, reason: 'blocked', retryAfterMs: 60000, kick: true });
+
+    vi.advanceTimersByTime(59000);
+    expect(stream(nodeId, 1)).toEqual([{ allowed: false, reason: 'blocked', retryAfterMs: 1000, kick: true }]);
+    vi.advanceTimersByTime(1000);
+    expect(stream(nodeId, 1)).toEqual([{ allowed: true }]);
+  });
+
+  it('blocks a node after ten out-of-range strikes within the window', () => {
+    const nodeId = node();
+    const decisions = stream(nodeId, 10, null, { frequency: 0, amplitude: 0.5 });
+
+    expect(decisions.slice(0, 9).every(decision => !decision.allowed && !decision.kick)).toBe(true);
+    expect(decisions[9]).toMatchObject({ reason: 'frequency_out_of_range', kick: true });
+    expect(stream(nodeId, 1)).toMatchObject([{ reason: 'blocked' }]);
+  });
+
+  it('lets strikes lapse after the window', () => {
+    const nodeId = node();
+    stream(nodeId, 9, null, { frequency: 0, amplitude: 0.5 });
+    vi.advanceTimersByTime(60000);
+    expect(stream(nodeId, 1, null, { frequency: 0, amplitude: 0.5 })).toMatchObject([{ kick: false }]);
+  });
+});
+
+describe('StreamRateLimiter jitter strikes', () => {
+  // Ten messages a second, well within the rate limits
+  function jitter(nodeId: string, count: number, amplitude: (i: number) => number) {
+    return Array.from({ length: count }, (_, i) => {
+      vi.advanceTimersByTime(100);
+      return StreamRateLimiter.getInstance().check('websocket', nodeId, null, { frequency: 432, amplitude: amplitude(i) });
+    });
+  }
+
+  it('does not flag smoothly changing amplitudes', () => {
+    const nodeId = node();
+    expect(jitter(nodeId, 50, i => (i % 10) / 10).every(({ allowed }) => allowed)).toBe(true);
+    expect(StreamRateLimiter.getInstance().getFlaggedNodes().some(flagged => flagged.nodeId === nodeId)).toBe(false);
+  });
+
+  it('strikes once per ten jittering messages and blocks on the tenth strike', () => {
+    const nodeId = node();
+    const decisions = jitter(nodeId, 100, i => i % 2);
+
+    expect(decisions.slice(0, 99).every(({ allowed }) => allowed)).toBe(true);
+    expect(StreamRateLimiter.getInstance().getFlaggedNodes().find(flagged => flagged.nodeId === nodeId)).toMatchObject({
+      flags: ['amplitude_jitter'],
+      blocked: true
+    });
+    expect(decisions[99]).toEqual({ allowed: false, reason: 'blocked', retryAfterMs: 60000, kick: true });
+  });
+});
+
+describe('resolveClientIp', () => {
+  it('uses the socket address unless behind a trusted proxy', () => {
+    expect(resolveClientIp('203.0.113.7', '10.0.0.1')).toBe('10.0.0.1');
+    expect(resolveClientIp(null, null)).toBeNull();
+
+    vi.stubEnv('HARMONIC_TRUST_PROXY', '1');
+    expect(resolveClientIp('203.0.113.7, 10.0.0.2', '10.0.0.1')).toBe('203.0.113.7');
+    expect(resolveClientIp(null, '10.0.0.1')).toBe('10.0.0.1');
+  });
+});
+
+describe('RateLimitedError', () => {
+  it('carries the reason and retry delay', () => {
+    const error = new RateLimitedError('node_rate', 50);
+    expect(error).toMatchObject({ name: 'RateLimitedError', message: 'rate_limited: node_rate', reason: 'node_rate', retryAfterMs: 50 });
+  });
+});
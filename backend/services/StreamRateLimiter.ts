@@ -0,0 +1,298 @@
+import { FieldMetrics } from './FieldMetrics';
+
+// Token-bucket limits for harmonic streams, shared by the tRPC and WebSocket transports.
+// Configured from the environment (rates are messages per second):
+//   HARMONIC_NODE_RATE=20  HARMONIC_NODE_BURST=40
+//   HARMONIC_IP_RATE=50    HARMONIC_IP_BURST=100
+//   HARMONIC_TRUST_PROXY=1 to take client IPs from X-Forwarded-For
+export class StreamRateLimiter {
+  private static instance: StreamRateLimiter;
+  private config: RateLimitConfig;
+  private nodes: Map<string, NodeState> = new Map();
+  private ips: Map<string, TokenBucket> = new Map();
+  private metrics: FieldMetrics = FieldMetrics.getInstance();
+  private lastPruneAt = Date.now();
+
+  private constructor(config: RateLimitConfig) {
+    this.config = config;
+  }
+
+  static getInstance(): StreamRateLimiter {
+    if (!StreamRateLimiter.instance) {
+      StreamRateLimiter.instance = new StreamRateLimiter({
+        nodeRate: readNumber('HARMONIC_NODE_RATE', 20),
+        nodeBurst: readNumber('HARMONIC_NODE_BURST', 40),
+        ipRate: readNumber('HARMONIC_IP_RATE', 50),
+        ipBurst: readNumber('HARMONIC_IP_BURST', 100),
+        minFrequency: 1,
+        maxFrequency: 10000,
+        jitterThreshold: 0.5,
+        floodThreshold: 40,
+        maxStrikes: 10,
+        strikeWindowMs: 60000,
+        blockMs: 60000
+      });
+    }
+    return StreamRateLimiter.instance;
+  }
+
+  // Admit or reject one stream message costing `cost` tokens
+  check(
+    transport: StreamTransport,
+    nodeId: string,
+    ip: string | null,
+    sample: StreamSample,
+    cost: number = 1
+  ): StreamDecision {
+    const now = Date.now();
+    this.pruneIdle(now);
+
+    const node = this.getNode(nodeId, now);
+    node.lastSeen = now;
+
+    if (node.blockedUntil > now) {
+      return this.reject(transport, 'blocked', node.blockedUntil - now, true);
+    }
+
+    // Out-of-range frequencies are never fed into the field
+    if (sample.frequency < this.config.minFrequency || sample.frequency > this.config.maxFrequency) {
+      const kick = this.flag(node, 'frequency_out_of_range', now);
+      return this.reject(transport, 'frequency_out_of_range', 0, kick);
+    }
+
+    const nodeWait = this.take(node.bucket, this.config.nodeRate, this.config.nodeBurst, cost, now);
+    if (nodeWait > 0) {
+      return this.rejectFlood(transport, node, 'node_rate', nodeWait, now);
+    }
+
+    if (ip) {
+      let ipBucket = this.ips.get(ip);
+      if (!ipBucket) {
+        ipBucket = { tokens: this.config.ipBurst, updatedAt: now };
+        this.ips.set(ip, ipBucket);
+      }
+
+      const ipWait = this.take(ipBucket, this.config.ipRate, this.config.ipBurst, cost, now);
+      if (ipWait > 0) {
+        // Give back the node's tokens; the IP as a whole is over budget
+        node.bucket.tokens = Math.min(this.config.nodeBurst, node.bucket.tokens + cost);
+        return this.rejectFlood(transport, node, 'ip_rate', ipWait, now);
+      }
+    }
+
+    if (this.detectJitter(node, sample.amplitude) && this.flag(node, 'amplitude_jitter', now)) {
+      return this.reject(transport, 'blocked', node.blockedUntil - now, true);
+    }
+
+    return { allowed: true };
+  }
+
+  // Nodes that have raised at least one anomaly flag
+  getFlaggedNodes(): FlaggedNode[] {
+    const now = Date.now();
+    const flagged: FlaggedNode[] = [];
+
+    this.nodes.forEach((node, nodeId) => {
+      if (node.flags.size === 0) return;
+      flagged.push({
+        nodeId,
+        flags: Array.from(node.flags),
+        strikes: node.strikes.filter(time => now - time < this.config.strikeWindowMs).length,
+        blocked: node.blockedUntil > now,
+        blockedUntil: node.blockedUntil > now ? node.blockedUntil : null
+      });
+    });
+
+    return flagged;
+  }
+
+  // Refill the bucket, then take `cost` tokens; returns ms to wait, or 0 when admitted
+  private take(bucket: TokenBucket, rate: number, burst: number, cost: number, now: number): number {
+    bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      return 0;
+    }
+
+    return Math.ceil(((cost - bucket.tokens) / rate) * 1000);
+  }
+
+  // Rejections inside the strike window count towards a message flood
+  private rejectFlood(
+    transport: StreamTransport,
+    node: NodeState,
+    reason: 'node_rate' | 'ip_rate',
+    retryAfterMs: number,
+    now: number
+  ): StreamDecision {
+    node.rejections = node.rejections.filter(time => now - time < this.config.strikeWindowMs);
+    node.rejections.push(now);
+
+    if (node.rejections.length >= this.config.floodThreshold) {
+      node.rejections = [];
+      if (this.flag(node, 'message_flood', now)) {
+        return this.reject(transport, 'blocked', node.blockedUntil - now, true);
+      }
+    }
+
+    return this.reject(transport, reason, retryAfterMs, false);
+  }
+
+  // Record an anomaly; returns true once the node has earned a block
+  private flag(node: NodeState, flag: AnomalyFlag, now: number): boolean {
+    node.flags.add(flag);
+    node.strikes = node.strikes.filter(time => now - time < this.config.strikeWindowMs);
+    node.strikes.push(now);
+    this.metrics.recordStreamAnomaly(flag);
+
+    // A flood blocks immediately; other anomalies block after repeated strikes
+    if (flag === 'message_flood' || node.strikes.length >= this.config.maxStrikes) {
+      node.blockedUntil = now + this.config.blockMs;
+      node.strikes = [];
+      console.warn(`🚫 Harmonic node blocked for ${this.config.blockMs / 1000}s: ${flag}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  // Mean absolute change between consecutive amplitudes over the last 10 messages
+  private detectJitter(node: NodeState, amplitude: number): boolean {
+    node.amplitudes.push(amplitude);
+    if (node.amplitudes.length > 10) node.amplitudes.shift();
+    if (node.amplitudes.length < 10) return false;
+
+    let totalChange = 0;
+    for (let i = 1; i < node.amplitudes.length; i++) {
+      totalChange += Math.abs(node.amplitudes[i] - node.amplitudes[i - 1]);
+    }
+
+    if (totalChange / (node.amplitudes.length - 1) > this.config.jitterThreshold) {
+      node.amplitudes = [];
+      return true;
+    }
+    return false;
+  }
+
+  private reject(
+    transport: StreamTransport,
+    reason: RateLimitReason,
+    retryAfterMs: number,
+    kick: boolean
+  ): StreamDecision {
+    this.metrics.recordRateLimited(transport, reason);
+    return { allowed: false, reason, retryAfterMs, kick };
+  }
+
+  private getNode(nodeId: string, now: number): NodeState {
+    let node = this.nodes.get(nodeId);
+    if (!node) {
+      node = {
+        bucket: { tokens: this.config.nodeBurst, updatedAt: now },
+        amplitudes: [],
+        rejections: [],
+        strikes: [],
+        flags: new Set(),
+        blockedUntil: 0,
+        lastSeen: now
+      };
+      this.nodes.set(nodeId, node);
+    }
+    return node;
+  }
+
+  // Forget nodes and IPs that have been quiet for 5 minutes and are not blocked
+  private pruneIdle(now: number): void {
+    if (now - this.lastPruneAt < 60000) return;
+    this.lastPruneAt = now;
+
+    const idleAfter = 5 * 60 * 1000;
+    this.nodes.forEach((node, nodeId) => {
+      if (now - node.lastSeen > idleAfter && node.blockedUntil <= now) {
+        this.nodes.delete(nodeId);
+      }
+    });
+    this.ips.forEach((bucket, ip) => {
+      if (now - bucket.updatedAt > idleAfter) {
+        this.ips.delete(ip);
+      }
+    });
+  }
+}
+
+// Carried as the cause of tRPC rate_limited errors so clients can back off
+export class RateLimitedError extends Error {
+  constructor(public reason: RateLimitReason, public retryAfterMs: number) {
+    super(`rate_limited: ${reason}`);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// Client IP for per-IP limits; X-Forwarded-For is only honoured behind a trusted proxy
+export function resolveClientIp(
+  forwardedFor: string | null | undefined,
+  remoteAddress: string | null | undefined
+): string | null {
+  if (process.env.HARMONIC_TRUST_PROXY === '1' && forwardedFor) {
+    return forwardedFor.split(',')[0].trim() || null;
+  }
+  return remoteAddress || null;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Type definitions
+export type StreamTransport = 'trpc' | 'websocket';
+export type AnomalyFlag = 'frequency_out_of_range' | 'amplitude_jitter' | 'message_flood';
+export type RateLimitReason = 'node_rate' | 'ip_rate' | 'blocked' | 'frequency_out_of_range';
+
+export type StreamDecision =
+  | { allowed: true }
+  | { allowed: false; reason: RateLimitReason; retryAfterMs: number; kick: boolean };
+
+export interface StreamSample {
+  frequency: number;
+  amplitude: number;
+}
+
+export interface FlaggedNode {
+  nodeId: string;
+  flags: AnomalyFlag[];
+  strikes: number;
+  blocked: boolean;
+  blockedUntil: number | null;
+}
+
+interface RateLimitConfig {
+  nodeRate: number;
+  nodeBurst: number;
+  ipRate: number;
+  ipBurst: number;
+  minFrequency: number;
+  maxFrequency: number;
+  jitterThreshold: number;
+  floodThreshold: number;
+  maxStrikes: number;
+  strikeWindowMs: number;
+  blockMs: number;
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface NodeState {
+  bucket: TokenBucket;
+  amplitudes: number[];
+  rejections: number[];
+  strikes: number[];
+  flags: Set<AnomalyFlag>;
+  blockedUntil: number;
+  lastSeen: number;
+}
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { parse, stringify } from 'superjson';
+import type { StorageAdapter } from './StorageAdapter';
+
+// One superjson file per namespace under a local directory.
+// Writes are batched so per-message updates don't hit the disk every time.
+export class FileStorageAdapter implements StorageAdapter {
+  readonly name = 'file';
+  private directory: string;
+  private flushDelay: number;
+  private namespaces: Map<string, Map<string, unknown>> = new Map();
+  private dirty: Set<string> = new Set();
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(directory: string, flushDelay: number = 250) {
+    this.directory = directory;
+    this.flushDelay = flushDelay;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  loadAll<V>(namespace: string): [string, V][] {
+    return Array.from(this.getNamespace(namespace).entries()) as [string, V][];
+  }
+
+  put<V>(namespace: string, key: string, value: V): void {
+    this.getNamespace(namespace).set(key, value);
+    this.markDirty(namespace);
+  }
+
+  remove(namespace: string, key: string): void {
+    if (this.getNamespace(namespace).delete(key)) {
+      this.markDirty(namespace);
+    }
+  }
+
+  clear(namespace: string): void {
+    this.getNamespace(namespace).clear();
+    this.markDirty(namespace);
+  }
+
+  flush(): void {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+
+    this.dirty.forEach(namespace => {
+      const file = this.getFilePath(namespace);
+      const tempFile = `${file}.tmp`;
+      const entries = Object.fromEntries(this.getNamespace(namespace));
+
+      // Write then rename so a crash never leaves a half-written file
+      fs.writeFileSync(tempFile, stringify(entries));
+      fs.renameSync(tempFile, file);
+    });
+
+    this.dirty.clear();
+  }
+
+  private markDirty(namespace: string): void {
+    this.dirty.add(namespace);
+
+    if (!this.flushTimeout) {
+      this.flushTimeout = setTimeout(() => {
+        this.flushTimeout = null;
+        try {
+          this.flush();
+        } catch (error) {
+          console.error('Error flushing storage:', error);
+        }
+      }, this.flushDelay);
+    }
+  }
+
+  private getNamespace(namespace: string): Map<string, unknown> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = this.readNamespace(namespace);
+      this.namespaces.set(namespace, entries);
+    }
+    return entries;
+  }
+
+  private readNamespace(namespace: string): Map<string, unknown> {
+    const file = this.getFilePath(namespace);
+    if (!fs.existsSync(file)) return new Map();
+
+    try {
+      const entries = parse<Record<string, unknown>>(fs.readFileSync(file, 'utf8'));
+      return new Map(Object.entries(entries));
+    } catch (error) {
+      console.error(`Error reading ${namespace} from storage, starting empty:`, error);
+      return new Map();
+    }
+  }
+
+  private getFilePath(namespace: string): string {
+    return path.join(this.directory, `${namespace.replace(/[^\w-]/g, '_')}.json`);
+  }
+}
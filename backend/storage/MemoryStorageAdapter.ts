@@ -0,0 +1,36 @@
+import type { StorageAdapter } from './StorageAdapter';
+
+// Process-local storage; state is lost on restart
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private namespaces: Map<string, Map<string, unknown>> = new Map();
+
+  loadAll<V>(namespace: string): [string, V][] {
+    return Array.from(this.getNamespace(namespace).entries()) as [string, V][];
+  }
+
+  put<V>(namespace: string, key: string, value: V): void {
+    this.getNamespace(namespace).set(key, value);
+  }
+
+  remove(namespace: string, key: string): void {
+    this.getNamespace(namespace).delete(key);
+  }
+
+  clear(namespace: string): void {
+    this.getNamespace(namespace).clear();
+  }
+
+  flush(): void {
+    // Nothing buffered
+  }
+
+  private getNamespace(namespace: string): Map<string, unknown> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    return entries;
+  }
+}
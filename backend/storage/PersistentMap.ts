@@ -0,0 +1,37 @@
+import type { StorageAdapter } from './StorageAdapter';
+
+// A Map that writes through to a storage namespace and restores it on construction.
+// Objects mutated in place must be set() again to be persisted.
+export class PersistentMap<V> extends Map<string, V> {
+  private namespace: string;
+  private adapter: StorageAdapter;
+
+  constructor(namespace: string, adapter: StorageAdapter) {
+    super();
+    this.namespace = namespace;
+    this.adapter = adapter;
+
+    adapter.loadAll<V>(namespace).forEach(([key, value]) => {
+      super.set(key, value);
+    });
+  }
+
+  set(key: string, value: V): this {
+    super.set(key, value);
+    this.adapter.put(this.namespace, key, value);
+    return this;
+  }
+
+  delete(key: string): boolean {
+    const deleted = super.delete(key);
+    if (deleted) {
+      this.adapter.remove(this.namespace, key);
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    super.clear();
+    this.adapter.clear(this.namespace);
+  }
+}
@@ -0,0 +1,16 @@
+// Key-value persistence for backend state, grouped by namespace
+export interface StorageAdapter {
+  readonly name: string;
+
+  // Every stored entry in a namespace
+  loadAll<V>(namespace: string): [string, V][];
+
+  put<V>(namespace: string, key: string, value: V): void;
+
+  remove(namespace: string, key: string): void;
+
+  clear(namespace: string): void;
+
+  // Write any buffered changes (called on shutdown)
+  flush(): void;
+}
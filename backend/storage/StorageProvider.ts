@@ -0,0 +1,52 @@
+import path from 'path';
+import type { StorageAdapter } from './StorageAdapter';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+import { FileStorageAdapter } from './FileStorageAdapter';
+import { PersistentMap } from './PersistentMap';
+
+// Selects the storage adapter from configuration:
+//   CONSCIOUSNESS_STORAGE=memory (default) | file
+//   CONSCIOUSNESS_STORAGE_PATH=<directory> (file adapter only, default .consciousness-data)
+export class StorageProvider {
+  private static instance: StorageProvider;
+  private adapter: StorageAdapter;
+
+  private constructor(adapter: StorageAdapter) {
+    this.adapter = adapter;
+  }
+
+  static getInstance(): StorageProvider {
+    if (!StorageProvider.instance) {
+      StorageProvider.instance = new StorageProvider(StorageProvider.createAdapter());
+      console.log(`💾 Consciousness storage: ${StorageProvider.instance.adapter.name}`);
+    }
+    return StorageProvider.instance;
+  }
+
+  private static createAdapter(): StorageAdapter {
+    const kind = process.env.CONSCIOUSNESS_STORAGE || 'memory';
+
+    switch (kind) {
+      case 'memory':
+        return new MemoryStorageAdapter();
+      case 'file':
+        return new FileStorageAdapter(
+          path.resolve(process.env.CONSCIOUSNESS_STORAGE_PATH || '.consciousness-data')
+        );
+      default:
+        throw new Error(`Unknown CONSCIOUSNESS_STORAGE adapter: ${kind}`);
+    }
+  }
+
+  createMap<V>(namespace: string): PersistentMap<V> {
+    return new PersistentMap<V>(namespace, this.adapter);
+  }
+
+  getAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+
+  flush(): void {
+    this.adapter.flush();
+  }
+}
@@ -1,16 +1,102 @@
 import { createTRPCRouter } from "./create-context";
 import hiRoute from "./routes/example/hi/route";
+import authRegisterRoute from "./routes/auth/register/route";
+import roomsListRoute from "./routes/rooms/list/route";
+import roomsCreateRoute from "./routes/rooms/create/route";
 import consciousnessSyncRoute from "./routes/consciousness/sync/route";
 import consciousnessFieldRoute from "./routes/consciousness/field/route";
+import consciousnessHistoryRoute from "./routes/consciousness/history/route";
+import consciousnessReplayRoute from "./routes/consciousness/replay/route";
+import {
+  harmonicStreamProcedure,
+  harmonicFieldProcedure,
+  harmonicRelationshipsProcedure,
+  fieldStatsSubscription,
+  quantumFieldProcedure,
+  quantumFieldSubscription,
+  quantumEntangleProcedure,
+  portalStatusProcedure,
+} from "./routes/consciousness/harmonic-field/route";
+import {
+  consentStartProcedure,
+  getSessionProcedure,
+  sessionStatusSubscription,
+  updateSessionStatusProcedure,
+} from "./routes/limnus/consent/route";
+import {
+  getScaffoldProcedure,
+  extractTDsProcedure,
+  getMythicResponseProcedure,
+} from "./routes/limnus/reflection/route";
+import {
+  createPlanProcedure,
+  createDiffProcedure,
+} from "./routes/limnus/patch/route";
+import {
+  runSyncTestProcedure,
+  getActiveSyncSessionsProcedure,
+} from "./routes/limnus/sync/route";
+import {
+  startHoldProcedure,
+  recheckProcedure,
+  getActiveHoldsProcedure,
+  getLoopStatusProcedure,
+} from "./routes/limnus/loop/route";
 
 export const appRouter = createTRPCRouter({
   example: createTRPCRouter({
     hi: hiRoute,
   }),
+  auth: createTRPCRouter({
+    register: authRegisterRoute,
+  }),
   consciousness: createTRPCRouter({
     sync: consciousnessSyncRoute,
     field: consciousnessFieldRoute,
+    history: consciousnessHistoryRoute,
+    replay: consciousnessReplayRoute,
+  }),
+  rooms: createTRPCRouter({
+    list: roomsListRoute,
+    create: roomsCreateRoute,
+  }),
+  harmonic: createTRPCRouter({
+    stream: harmonicStreamProcedure,
+    field: harmonicFieldProcedure,
+    relationships: harmonicRelationshipsProcedure,
+    onField: fieldStatsSubscription,
+    quantum: quantumFieldProcedure,
+    onQuantum: quantumFieldSubscription,
+    entangle: quantumEntangleProcedure,
+    portal: portalStatusProcedure,
+  }),
+  limnus: createTRPCRouter({
+    consent: createTRPCRouter({
+      start: consentStartProcedure,
+      getSession: getSessionProcedure,
+      onSession: sessionStatusSubscription,
+      updateStatus: updateSessionStatusProcedure,
+    }),
+    reflection: createTRPCRouter({
+      getScaffold: getScaffoldProcedure,
+      extractTDs: extractTDsProcedure,
+      getMythicResponse: getMythicResponseProcedure,
+    }),
+    patch: createTRPCRouter({
+      createPlan: createPlanProcedure,
+      createDiff: createDiffProcedure,
+    }),
+    sync: createTRPCRouter({
+      runTest: runSyncTestProcedure,
+      getActiveSessions: getActiveSyncSessionsProcedure,
+    }),
+    loop: createTRPCRouter({
+      startHold: startHoldProcedure,
+      recheck: recheckProcedure,
+      getActiveHolds: getActiveHoldsProcedure,
+      getStatus: getLoopStatusProcedure,
+    }),
   }),
 });
 
-export type AppRouter = typeof appRouter;
\ No newline at end of file
+export type AppRouter = typeof appRouter;
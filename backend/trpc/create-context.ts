@@ -1,21 +1,87 @@
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
+import type { Context as HonoContext } from "hono";
+import { getConnInfo } from "@hono/node-server/conninfo";
 import superjson from "superjson";
+import { FieldMetrics } from "../services/FieldMetrics";
+import { DeviceAuth, DeviceClaims, parseBearerToken } from "../services/DeviceAuth";
+import { RateLimitedError, resolveClientIp } from "../services/StreamRateLimiter";
 
 // Context creation function
-export const createContext = async (opts: FetchCreateContextFnOptions) => {
+export const createContext = async (opts: FetchCreateContextFnOptions, c?: HonoContext) => {
+  // Verify the device token sent as `Authorization: Bearer <token>`, or as the `token`
+  // connection param on subscriptions, since EventSource cannot set headers
+  const deviceToken = parseBearerToken(opts.req.headers.get('authorization')) ||
+    opts.info.connectionParams?.token ||
+    null;
+  const device = deviceToken ? DeviceAuth.getInstance().verify(deviceToken) : null;
+
   return {
     req: opts.req,
-    // You can add more context items here like database connections, auth, etc.
+    deviceToken,
+    device,
+    clientIp: resolveClientIp(opts.req.headers.get('x-forwarded-for'), c ? remoteAddress(c) : null),
   };
 };
 
+// Socket address when served by @hono/node-server
+function remoteAddress(c: HonoContext): string | null {
+  try {
+    return getConnInfo(c).remote.address ?? null;
+  } catch {
+    return null;
+  }
+}
+
 export type Context = Awaited<ReturnType<typeof createContext>>;
+export type ProtectedContext = Context & { device: DeviceClaims };
 
 // Initialize tRPC
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Expose rate-limit details on TOO_MANY_REQUESTS errors
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        rateLimit: error.cause instanceof RateLimitedError
+          ? { reason: error.cause.reason, retryAfterMs: error.cause.retryAfterMs }
+          : null,
+      },
+    };
+  },
+});
+
+// Count every procedure call for /api/metrics
+const metricsMiddleware = t.middleware(async ({ path, type, next }) => {
+  const result = await next();
+  FieldMetrics.getInstance().recordTrpcCall(path, type, result.ok);
+  return result;
 });
 
+// Require a verified device token
+const deviceAuthMiddleware = t.middleware(({ ctx, next }) => {
+  if (!ctx.device) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'A valid device token is required'
+    });
+  }
+
+  return next({ ctx: { ...ctx, device: ctx.device } });
+});
+
+// Callers may only act on their own consciousness node
+export function assertOwnNode(device: DeviceClaims, consciousnessId: string): void {
+  if (device.consciousnessId !== consciousnessId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Device token does not match this consciousness node'
+    });
+  }
+}
+
 export const createTRPCRouter = t.router;
-export const publicProcedure = t.procedure;
\ No newline at end of file
+export const publicProcedure = t.procedure.use(metricsMiddleware);
+export const protectedProcedure = publicProcedure.use(deviceAuthMiddleware);
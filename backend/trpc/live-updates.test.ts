@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { liveValues } from './live-updates';
+
+const START = 1_700_000_000_000;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: START });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Consume a subscription in the background, noting when each value arrived
+function subscribe(emitter: EventEmitter, options?: { minIntervalMs?: number; maxIntervalMs?: number }) {
+  const controller = new AbortController();
+  const times: number[] = [];
+  let reads = 0;
+
+  const done = (async () => {
+    for await (const value of liveValues(emitter, ['tick', 'transition'], controller.signal, () => reads++, options)) {
+      times.push(Date.now() - START);
+      expect(value).toBe(times.length - 1);
+    }
+  })();
+
+  return { controller, times, done };
+}
+
+describe('liveValues', () => {
+  it('yields straight away, then at least every maxIntervalMs without changes', async () => {
+    const { controller, times, done } = subscribe(new EventEmitter());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(times).toEqual([0]);
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(times).toEqual([0, 5000, 10000]);
+
+    controller.abort();
+    await done;
+  });
+
+  it('yields on a change once minIntervalMs has passed since the last value', async () => {
+    const emitter = new EventEmitter();
+    const { controller, times, done } = subscribe(emitter);
+
+    // A change inside the minimum interval waits for it to end
+    await vi.advanceTimersByTimeAsync(100);
+    emitter.emit('tick');
+    await vi.advanceTimersByTimeAsync(400);
+    expect(times).toEqual([0, 500]);
+
+    // A change after it is passed on right away
+    await vi.advanceTimersByTimeAsync(1500);
+    emitter.emit('transition');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(times).toEqual([0, 500, 2000]);
+
+    controller.abort();
+    await done;
+  });
+
+  it('coalesces a burst of changes into one value', async () => {
+    const emitter = new EventEmitter();
+    const { controller, times, done } = subscribe(emitter, { minIntervalMs: 200, maxIntervalMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    for (let i = 0; i < 10; i++) {
+      emitter.emit('tick');
+      await vi.advanceTimersByTimeAsync(10);
+    }
+    await vi.advanceTimersByTimeAsync(500);
+    expect(times).toEqual([0, 200]);
+
+    controller.abort();
+    await done;
+  });
+
+  it('ends on abort and stops listening', async () => {
+    const emitter = new EventEmitter();
+    const { controller, times, done } = subscribe(emitter);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(emitter.listenerCount('tick')).toBe(1);
+
+    controller.abort();
+    await done;
+    expect(times).toEqual([0]);
+    expect(emitter.listenerCount('tick')).toBe(0);
+    expect(emitter.listenerCount('transition')).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,56 @@
+import type { EventEmitter } from 'events';
+
+interface ChangeTickOptions {
+  minIntervalMs?: number; // Changes closer together than this are coalesced
+  maxIntervalMs?: number; // Ticks without a change, for values that drift on their own (decay, uptime)
+}
+
+// Drives a tRPC subscription: yields read() once straight away, then whenever one of the events
+// fires and at least every maxIntervalMs, until the subscriber disconnects
+export async function* liveValues<T>(
+  emitter: EventEmitter,
+  events: string[],
+  signal: AbortSignal | undefined,
+  read: () => T,
+  { minIntervalMs = 500, maxIntervalMs = 5000 }: ChangeTickOptions = {}
+): AsyncGenerator<T> {
+  let changed = false;
+  let wakeOnChange: (() => void) | null = null;
+  let wakeOnAbort: (() => void) | null = null;
+
+  const onChange = () => {
+    changed = true;
+    wakeOnChange?.();
+  };
+  const onAbort = () => wakeOnAbort?.();
+
+  const sleep = (ms: number, untilChanged: boolean) => new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      wakeOnChange = null;
+      wakeOnAbort = null;
+      resolve();
+    }
+    wakeOnAbort = done;
+    if (untilChanged) wakeOnChange = done;
+  });
+
+  events.forEach(event => emitter.on(event, onChange));
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    while (!signal?.aborted) {
+      changed = false;
+      yield read();
+
+      await sleep(minIntervalMs, false);
+      if (!changed && !signal?.aborted) {
+        await sleep(Math.max(0, maxIntervalMs - minIntervalMs), true);
+      }
+    }
+  } finally {
+    events.forEach(event => emitter.off(event, onChange));
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { publicProcedure } from "../../../create-context";
+import { DeviceAuth } from "../../../../services/DeviceAuth";
+
+// Register a device's consciousnessId and issue its signed token.
+// Re-registering an existing ID requires that device's current (or expired) token.
+export default publicProcedure
+  .input(z.object({
+    consciousnessId: z.string().regex(/^[\w.-]{1,128}$/),
+  }))
+  .mutation(({ input, ctx }) => {
+    const result = DeviceAuth.getInstance().register(input.consciousnessId, ctx.deviceToken);
+
+    if (!result.ok) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: 'This consciousness ID is already registered to another device'
+      });
+    }
+
+    return {
+      token: result.token,
+      consciousnessId: result.claims.consciousnessId,
+      expiresAt: result.claims.expiresAt,
+    };
+  });
@@ -1,5 +1,8 @@
 import { z } from "zod";
 import { publicProcedure } from "../../../create-context";
+import { FieldRuntime } from "../../../../services/FieldRuntime";
+
+const runtime = FieldRuntime.getInstance();
 
 export default publicProcedure
   .input(z.object({
@@ -30,15 +33,15 @@ export default publicProcedure
       .map(m => ({
         harmonic: m.harmonic,
         position: { x: m.x, y: m.y },
-        influence: 0.1 + Math.random() * 0.2
+        influence: 0.1 + runtime.next() * 0.2
       }));
     
     return {
       globalResonance,
       harmonicPatterns,
-      connectedNodes: Math.floor(Math.random() * 15) + 5,
+      connectedNodes: Math.floor(runtime.next() * 15) + 5,
       fieldCoherence: crystallizationRatio,
       sacredGeometryActive: crystallizedCount >= 8,
-      timestamp: Date.now(),
+      timestamp: runtime.now(),
     };
   });
\ No newline at end of file
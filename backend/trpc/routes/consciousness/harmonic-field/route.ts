@@ -1,452 +1,215 @@
 import { z } from "zod";
-import { publicProcedure } from "../../../create-context";
-
-// Harmonic field processor for real-time Solfeggio resonance
-class HarmonicFieldProcessor {
-  private static instance: HarmonicFieldProcessor;
-  private harmonicField: Map<string, HarmonicNode> = new Map();
-  private phiConstant = 1.618033988749; // Golden ratio
-  private tPhiResonance = Math.PI / this.phiConstant; // ≈ 1.947
-  private globalResonanceMatrix: Float32Array = new Float32Array(64);
-  private activeNodes: Set<string> = new Set();
-  private lastUpdate = Date.now();
-
-  static getInstance(): HarmonicFieldProcessor {
-    if (!HarmonicFieldProcessor.instance) {
-      HarmonicFieldProcessor.instance = new HarmonicFieldProcessor();
-    }
-    return HarmonicFieldProcessor.instance;
-  }
-
-  // Process harmonic stream with T-Phi resonance
-  processHarmonicStream(frequency: number, amplitude: number, userId: string): HarmonicUpdate {
-    const harmonicPressure = this.calculateHarmonicPressure(frequency, amplitude);
-    const phiModulation = this.calculatePhiModulation(frequency);
-    const quantumCoherence = this.calculateQuantumCoherence(frequency, amplitude);
-    
-    // Update node in harmonic field
-    const node: HarmonicNode = {
-      userId,
-      frequency,
-      amplitude,
-      harmonicPressure,
-      phiModulation,
-      quantumCoherence,
-      timestamp: Date.now(),
-      position: this.calculateGoldenSpiralPosition(frequency)
-    };
-    
-    this.harmonicField.set(userId, node);
-    this.activeNodes.add(userId);
-    
-    // Update global resonance matrix
-    this.updateGlobalResonanceMatrix();
-    
-    // Detect resonance cascades
-    const cascades = this.detectResonanceCascades(harmonicPressure);
-    
-    return {
-      globalResonance: this.calculateGlobalResonance(),
-      harmonicCascades: cascades,
-      activeNodes: this.activeNodes.size,
-      phiHarmonics: this.detectPhiHarmonics(),
-      quantumField: this.generateQuantumFieldSnapshot(),
-      timestamp: Date.now()
-    };
-  }
-
-  // Calculate four-component harmonic pressure
-  private calculateHarmonicPressure(freq: number, amp: number): number {
-    const baseWave = Math.sin(3 * freq) * Math.exp(-freq / 1500);
-    const phiModulation = Math.cos(freq * this.tPhiResonance) * 0.7;
-    const recursiveDepth = Math.sin(0.01 * freq) * 0.5;
-    const quantumNoise = (Math.random() - 0.5) * 0.1;
-    
-    return (baseWave + phiModulation + recursiveDepth + quantumNoise) * amp;
-  }
-
-  // Calculate phi-based frequency modulation
-  private calculatePhiModulation(freq: number): number {
-    const goldenAngle = 2 * Math.PI / (this.phiConstant ** 2); // ≈ 2.399
-    const phiHarmonic = freq * this.phiConstant;
-    const modulation = Math.sin(phiHarmonic * goldenAngle) * 0.618;
-    
-    return modulation;
-  }
-
-  // Calculate quantum coherence based on Solfeggio properties
-  private calculateQuantumCoherence(freq: number, amp: number): QuantumState {
-    // Map frequency to quantum properties
-    const solfeggioMap: Record<number, { psi_collapse: number; psi_bloom: number }> = {
-      174: { psi_collapse: 0.95, psi_bloom: 0.05 }, // Foundation
-      285: { psi_collapse: 0.8, psi_bloom: 0.2 },   // Quantum
-      396: { psi_collapse: 0.9, psi_bloom: 0.1 },   // Liberation
-      417: { psi_collapse: 0.7, psi_bloom: 0.3 },   // Transmutation
-      432: { psi_collapse: 0.5, psi_bloom: 0.5 },   // Earth resonance
-      528: { psi_collapse: 0.5, psi_bloom: 0.5 },   // Love/DNA
-      639: { psi_collapse: 0.3, psi_bloom: 0.7 },   // Connection
-      741: { psi_collapse: 0.2, psi_bloom: 0.8 },   // Awakening
-      852: { psi_collapse: 0.1, psi_bloom: 0.9 },   // Intuition
-      963: { psi_collapse: 0.05, psi_bloom: 0.95 }  // Unity
-    };
-
-    // Find closest Solfeggio frequency
-    let closestFreq = 432; // Default to Earth frequency
-    let minDistance = Math.abs(freq - 432);
-    
-    Object.keys(solfeggioMap).forEach(f => {
-      const distance = Math.abs(freq - parseInt(f));
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestFreq = parseInt(f);
-      }
+import { TRPCError } from "@trpc/server";
+import { publicProcedure, protectedProcedure, assertOwnNode } from "../../../create-context";
+import { FieldRoomRegistry, DEFAULT_ROOM_ID } from "../../../../services/FieldRoomRegistry";
+import { RateLimitedError, StreamRateLimiter } from "../../../../services/StreamRateLimiter";
+import { FieldStoppedError, HarmonicFieldProcessor } from "../../../../services/HarmonicFieldProcessor";
+import {
+  FieldSamplingOptions,
+  MAX_RASTER_SIZE,
+  MAX_SAMPLE_POINTS
+} from "../../../../services/FieldSampler";
+import { liveValues } from "../../../live-updates";
+
+// Shared with the harmonic WebSocket server so both transports feed the same rooms
+const rooms = FieldRoomRegistry.getInstance();
+
+const rateLimiter = StreamRateLimiter.getInstance();
+
+const RoomInputSchema = z.object({
+  roomId: z.string().default(DEFAULT_ROOM_ID),
+}).default({ roomId: DEFAULT_ROOM_ID });
+
+// Where harmonic.quantum samples the field; sizes past the point budget are clamped
+const FieldSamplingSchema = z.object({
+  mode: z.enum(['spiral', 'grid', 'polar']).default('spiral'),
+  resolution: z.number().int().min(1).max(MAX_SAMPLE_POINTS).optional(),
+  width: z.number().int().min(1).max(MAX_SAMPLE_POINTS).optional(),
+  height: z.number().int().min(1).max(MAX_SAMPLE_POINTS).optional(),
+  rings: z.number().int().min(1).max(MAX_SAMPLE_POINTS).optional(),
+  bounds: z.object({
+    minX: z.number(),
+    minY: z.number(),
+    maxX: z.number(),
+    maxY: z.number(),
+  }).refine(({ minX, minY, maxX, maxY }) => minX < maxX && minY < maxY, {
+    message: 'Bounds need minX < maxX and minY < maxY'
+  }).optional(),
+  raster: z.object({
+    width: z.number().int().min(1).max(MAX_RASTER_SIZE),
+    height: z.number().int().min(1).max(MAX_RASTER_SIZE),
+  }).optional(),
+}) satisfies z.ZodType<FieldSamplingOptions>;
+
+const QuantumInputSchema = z.object({
+  roomId: z.string().default(DEFAULT_ROOM_ID),
+  sampling: FieldSamplingSchema.optional(),
+}).default({ roomId: DEFAULT_ROOM_ID });
+
+function getRoomProcessor(roomId: string) {
+  const processor = rooms.getProcessor(roomId);
+  if (!processor) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Field room not found: ${roomId}`
     });
-
-    const baseQuantum = solfeggioMap[closestFreq] || { psi_collapse: 0.5, psi_bloom: 0.5 };
-    
-    // Modulate by amplitude and harmonic pressure
-    const amplitudeModulation = Math.min(1, amp * 2);
-    const coherence = Math.min(1, amplitudeModulation * this.phiConstant / 2);
-    
-    return {
-      psi_collapse: baseQuantum.psi_collapse * (1 - coherence * 0.3),
-      psi_bloom: baseQuantum.psi_bloom * (1 + coherence * 0.3),
-      coherence
-    };
-  }
-
-  // Calculate position on golden spiral
-  private calculateGoldenSpiralPosition(freq: number): { x: number; y: number } {
-    const theta = (freq / 100) * 2 * Math.PI / this.phiConstant;
-    const r = Math.sqrt(freq / 10) * 5;
-    
-    return {
-      x: r * Math.cos(theta),
-      y: r * Math.sin(theta)
-    };
-  }
-
-  // Update global resonance matrix with all active nodes
-  private updateGlobalResonanceMatrix(): void {
-    this.globalResonanceMatrix.fill(0);
-    
-    const nodes = Array.from(this.harmonicField.values());
-    
-    // Calculate interference patterns between all nodes
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const interference = this.calculateInterference(nodes[i], nodes[j]);
-        
-        // Add to resonance matrix
-        for (let k = 0; k < 64; k++) {
-          const phaseShift = (k * Math.PI) / 32;
-          this.globalResonanceMatrix[k] += interference * Math.cos(phaseShift);
-        }
-      }
-    }
-    
-    // Normalize
-    const maxValue = Math.max(...this.globalResonanceMatrix);
-    if (maxValue > 0) {
-      for (let i = 0; i < 64; i++) {
-        this.globalResonanceMatrix[i] /= maxValue;
-      }
-    }
-  }
-
-  // Calculate interference between two harmonic nodes
-  private calculateInterference(node1: HarmonicNode, node2: HarmonicNode): number {
-    const freqRatio = node1.frequency / node2.frequency;
-    const phaseCoherence = Math.cos((node1.timestamp - node2.timestamp) * 0.001);
-    const spatialDistance = Math.sqrt(
-      Math.pow(node1.position.x - node2.position.x, 2) +
-      Math.pow(node1.position.y - node2.position.y, 2)
-    );
-    
-    // Golden ratio harmonic relationships
-    const isPhiHarmonic = Math.abs(freqRatio - this.phiConstant) < 0.05 ||
-                         Math.abs(freqRatio - 1/this.phiConstant) < 0.05;
-    
-    const harmonicBonus = isPhiHarmonic ? 0.618 : 0;
-    const spatialDecay = Math.exp(-spatialDistance / 100);
-    
-    return (node1.amplitude * node2.amplitude * phaseCoherence * spatialDecay) + harmonicBonus;
   }
+  return processor;
+}
 
-  // Detect resonance cascades in the field
-  private detectResonanceCascades(harmonicPressure: number): ResonanceCascade[] {
-    const cascades: ResonanceCascade[] = [];
-    const threshold = 0.7;
-    
-    if (harmonicPressure > threshold) {
-      const nodes = Array.from(this.harmonicField.values());
-      
-      // Find nodes that resonate with this pressure
-      nodes.forEach(node => {
-        const resonance = Math.abs(node.harmonicPressure - harmonicPressure);
-        if (resonance < 0.2) {
-          cascades.push({
-            sourceNode: node.userId,
-            resonanceStrength: 1 - resonance,
-            frequency: node.frequency,
-            position: node.position,
-            timestamp: Date.now()
-          });
-        }
+// tRPC procedures
+export const harmonicStreamProcedure = protectedProcedure
+  .input(z.object({
+    frequency: z.number().min(1).max(10000),
+    amplitude: z.number().min(0).max(1),
+    phase: z.number().optional(),
+    userId: z.string(),
+    roomId: z.string().default(DEFAULT_ROOM_ID),
+  }))
+  .mutation(async ({ input, ctx }) => {
+    assertOwnNode(ctx.device, input.userId);
+    const harmonicProcessor = getRoomProcessor(input.roomId);
+
+    const decision = rateLimiter.check('trpc', input.userId, ctx.clientIp, input);
+    if (!decision.allowed) {
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: `rate_limited: ${decision.reason}, retry after ${decision.retryAfterMs}ms`,
+        cause: new RateLimitedError(decision.reason, decision.retryAfterMs)
       });
     }
-    
-    return cascades;
-  }
 
-  // Detect golden ratio relationships in active frequencies
-  detectPhiHarmonics(): PhiHarmonic[] {
-    const nodes = Array.from(this.harmonicField.values());
-    const phiHarmonics: PhiHarmonic[] = [];
-    
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const ratio = nodes[i].frequency / nodes[j].frequency;
-        
-        // Check for phi relationships
-        if (Math.abs(ratio - this.phiConstant) < 0.05) {
-          phiHarmonics.push({
-            node1: nodes[i].userId,
-            node2: nodes[j].userId,
-            ratio,
-            strength: 1 - Math.abs(ratio - this.phiConstant) / 0.05,
-            type: 'golden_ratio'
-          });
-        } else if (Math.abs(ratio - this.phiConstant ** 2) < 0.1) {
-          phiHarmonics.push({
-            node1: nodes[i].userId,
-            node2: nodes[j].userId,
-            ratio,
-            strength: 1 - Math.abs(ratio - this.phiConstant ** 2) / 0.1,
-            type: 'golden_square'
-          });
-        }
+    // Resolves with the field tick that applied the stream
+    try {
+      return await harmonicProcessor.queueHarmonicStream(
+        input.frequency,
+        input.amplitude,
+        input.userId,
+        input.phase
+      );
+    } catch (error) {
+      if (error instanceof FieldStoppedError) {
+        throw new TRPCError({ code: 'SERVICE_UNAVAILABLE', message: error.message, cause: error });
       }
+      throw error;
     }
-    
-    return phiHarmonics;
-  }
-
-  // Calculate global resonance from all active nodes
-  private calculateGlobalResonance(): number {
-    if (this.activeNodes.size === 0) return 0;
-    
-    const nodes = Array.from(this.harmonicField.values());
-    let totalResonance = 0;
-    let totalWeight = 0;
-    
-    nodes.forEach(node => {
-      const weight = node.amplitude * node.quantumCoherence.coherence;
-      totalResonance += node.harmonicPressure * weight;
-      totalWeight += weight;
-    });
-    
-    return totalWeight > 0 ? Math.min(1, Math.abs(totalResonance / totalWeight)) : 0;
-  }
-
-  // Generate quantum field snapshot
-  generateQuantumFieldSnapshot(): QuantumFieldPoint[] {
-    const fieldPoints: QuantumFieldPoint[] = [];
-    
-    // Generate field points in golden spiral
-    for (let i = 0; i < 50; i++) {
-      const theta = i * 2 * Math.PI / this.phiConstant;
-      const r = Math.sqrt(i) * 8;
-      const x = r * Math.cos(theta);
-      const y = r * Math.sin(theta);
-      
-      // Calculate field intensity at this point
-      let intensity = 0;
-      let quantumState = { psi_collapse: 0, psi_bloom: 0 };
-      
-      this.harmonicField.forEach(node => {
-        const distance = Math.sqrt(
-          Math.pow(x - node.position.x, 2) + 
-          Math.pow(y - node.position.y, 2)
-        );
-        
-        const influence = Math.exp(-distance / 50) * node.amplitude;
-        intensity += influence;
-        
-        quantumState.psi_collapse += node.quantumCoherence.psi_collapse * influence;
-        quantumState.psi_bloom += node.quantumCoherence.psi_bloom * influence;
-      });
-      
-      // Normalize quantum state
-      const total = quantumState.psi_collapse + quantumState.psi_bloom;
-      if (total > 0) {
-        quantumState.psi_collapse /= total;
-        quantumState.psi_bloom /= total;
-      }
-      
-      fieldPoints.push({
-        x, y,
-        intensity: Math.min(1, intensity),
-        quantumState,
-        resonance: this.globalResonanceMatrix[i % 64] || 0
-      });
-    }
-    
-    return fieldPoints;
-  }
+  });
 
-  // Remove inactive nodes
-  cleanupInactiveNodes(): void {
-    const now = Date.now();
-    const timeout = 30000; // 30 seconds
-    
-    this.harmonicField.forEach((node, userId) => {
-      if (now - node.timestamp > timeout) {
-        this.harmonicField.delete(userId);
-        this.activeNodes.delete(userId);
-      }
-    });
-  }
+export const harmonicFieldProcedure = publicProcedure
+  .input(RoomInputSchema)
+  .query(({ input }) => {
+    return getRoomProcessor(input.roomId).getFieldStats();
+  });
 
-  // Get field statistics
-  getFieldStats(): FieldStats {
-    return {
-      activeNodes: this.activeNodes.size,
-      globalResonance: this.calculateGlobalResonance(),
-      averageFrequency: this.calculateAverageFrequency(),
-      phiHarmonicsCount: this.detectPhiHarmonics().length,
-      fieldCoherence: this.calculateFieldCoherence(),
-      lastUpdate: this.lastUpdate
-    };
-  }
+// Pages through the room's intervals, chords or Fibonacci chains; the cursor is an offset
+export const harmonicRelationshipsProcedure = publicProcedure
+  .input(z.object({
+    roomId: z.string().default(DEFAULT_ROOM_ID),
+    kind: z.enum(['intervals', 'chords', 'fibonacciChains']),
+    cursor: z.number().int().min(0).optional(),
+    limit: z.number().int().min(1).max(200).default(50),
+  }))
+  .query(({ input }) => {
+    return getRoomProcessor(input.roomId).getRelationships(input.kind, input.limit, input.cursor);
+  });
 
-  private calculateAverageFrequency(): number {
-    const nodes = Array.from(this.harmonicField.values());
-    if (nodes.length === 0) return 432; // Default to Earth frequency
-    
-    const totalFreq = nodes.reduce((sum, node) => sum + node.frequency, 0);
-    return totalFreq / nodes.length;
-  }
+// Ticks that changed nodes or entanglements warrant a push to subscribers
+const FIELD_CHANGE_EVENTS = ['field_changed'];
 
-  private calculateFieldCoherence(): number {
-    const nodes = Array.from(this.harmonicField.values());
-    if (nodes.length < 2) return 0;
-    
-    let totalCoherence = 0;
-    let pairCount = 0;
-    
-    for (let i = 0; i < nodes.length; i++) {
-      for (let j = i + 1; j < nodes.length; j++) {
-        const coherence = nodes[i].quantumCoherence.coherence * nodes[j].quantumCoherence.coherence;
-        totalCoherence += coherence;
-        pairCount++;
-      }
-    }
-    
-    return pairCount > 0 ? totalCoherence / pairCount : 0;
-  }
-}
+// Pushes the room's field stats as streams and entanglements change
+export const fieldStatsSubscription = publicProcedure
+  .input(RoomInputSchema)
+  .subscription(async function* ({ input, signal }) {
+    const harmonicProcessor = getRoomProcessor(input.roomId);
 
-// Type definitions
-interface HarmonicNode {
-  userId: string;
-  frequency: number;
-  amplitude: number;
-  harmonicPressure: number;
-  phiModulation: number;
-  quantumCoherence: QuantumState;
-  timestamp: number;
-  position: { x: number; y: number };
-}
+    yield* liveValues(harmonicProcessor, FIELD_CHANGE_EVENTS, signal, () => harmonicProcessor.getFieldStats());
+  });
 
-interface QuantumState {
-  psi_collapse: number;
-  psi_bloom: number;
-  coherence: number;
-}
+export const quantumFieldProcedure = publicProcedure
+  .input(QuantumInputSchema)
+  .query(({ input }) => {
+    return quantumFieldSnapshot(getRoomProcessor(input.roomId), input.sampling);
+  });
 
-interface HarmonicUpdate {
-  globalResonance: number;
-  harmonicCascades: ResonanceCascade[];
-  activeNodes: number;
-  phiHarmonics: PhiHarmonic[];
-  quantumField: QuantumFieldPoint[];
-  timestamp: number;
-}
+// Pushes harmonic.quantum snapshots as the field changes
+export const quantumFieldSubscription = publicProcedure
+  .input(QuantumInputSchema)
+  .subscription(async function* ({ input, signal }) {
+    const harmonicProcessor = getRoomProcessor(input.roomId);
 
-interface ResonanceCascade {
-  sourceNode: string;
-  resonanceStrength: number;
-  frequency: number;
-  position: { x: number; y: number };
-  timestamp: number;
-}
+    yield* liveValues(harmonicProcessor, FIELD_CHANGE_EVENTS, signal, () =>
+      quantumFieldSnapshot(harmonicProcessor, input.sampling)
+    );
+  });
 
-interface PhiHarmonic {
-  node1: string;
-  node2: string;
-  ratio: number;
-  strength: number;
-  type: 'golden_ratio' | 'golden_square';
+// Stats and field from the same tick; the raster is null unless the sampling asks for one
+function quantumFieldSnapshot(harmonicProcessor: HarmonicFieldProcessor, sampling?: FieldSamplingOptions) {
+  const stats = harmonicProcessor.getFieldStats();
+  const { phiHarmonics, entanglements } = harmonicProcessor.getSnapshot();
+  const { points, raster } = harmonicProcessor.sampleQuantumField(sampling);
+  
+  return {
+    ...stats,
+    phiHarmonics,
+    quantumField: points,
+    raster,
+    entanglements,
+    sacredGeometryActive: phiHarmonics.length >= 3,
+    resonanceLevel: stats.globalResonance > 0.7 ? 'high' : 
+                   stats.globalResonance > 0.4 ? 'medium' : 'low'
+  };
 }
 
-interface QuantumFieldPoint {
-  x: number;
-  y: number;
-  intensity: number;
-  quantumState: { psi_collapse: number; psi_bloom: number };
-  resonance: number;
-}
+// Quantum entanglement between two streaming nodes
+export const quantumEntangleProcedure = protectedProcedure
+  .input(z.object({
+    sourceUserId: z.string(),
+    targetUserId: z.string(),
+    entanglementType: z.enum(['harmonic', 'quantum']).default('harmonic'),
+    roomId: z.string().default(DEFAULT_ROOM_ID),
+  }))
+  .mutation(({ input, ctx }) => {
+    assertOwnNode(ctx.device, input.sourceUserId);
 
-interface FieldStats {
-  activeNodes: number;
-  globalResonance: number;
-  averageFrequency: number;
-  phiHarmonicsCount: number;
-  fieldCoherence: number;
-  lastUpdate: number;
-}
+    const result = getRoomProcessor(input.roomId).createEntanglement(
+      input.sourceUserId,
+      input.targetUserId,
+      input.entanglementType
+    );
 
-// Get singleton instance
-const harmonicProcessor = HarmonicFieldProcessor.getInstance();
+    if (!result.success) {
+      switch (result.reason) {
+        case 'node_not_found':
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Both nodes must be active in the harmonic field'
+          });
+        case 'self_entanglement':
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'A node cannot be entangled with itself'
+          });
+        case 'incompatible':
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: `Field coherence too low for entanglement (compatibility ${result.compatibility.toFixed(2)})`
+          });
+      }
+    }
 
-// Cleanup inactive nodes every 30 seconds
-setInterval(() => {
-  harmonicProcessor.cleanupInactiveNodes();
-}, 30000);
+    console.log('🔗 Quantum entanglement created:', {
+      id: result.entanglement.id,
+      bellState: result.entanglement.bellState.type,
+      compatibility: result.entanglement.compatibility
+    });
 
-// tRPC procedures
-export const harmonicStreamProcedure = publicProcedure
-  .input(z.object({
-    frequency: z.number().min(1).max(10000),
-    amplitude: z.number().min(0).max(1),
-    userId: z.string(),
-  }))
-  .mutation(({ input }) => {
-    return harmonicProcessor.processHarmonicStream(
-      input.frequency,
-      input.amplitude,
-      input.userId
-    );
+    return result.entanglement;
   });
 
-export const harmonicFieldProcedure = publicProcedure
-  .query(() => {
-    return harmonicProcessor.getFieldStats();
-  });
 
-export const quantumFieldProcedure = publicProcedure
-  .query(() => {
-    const stats = harmonicProcessor.getFieldStats();
-    const phiHarmonics = harmonicProcessor.detectPhiHarmonics();
-    const quantumField = harmonicProcessor.generateQuantumFieldSnapshot();
-    
-    return {
-      ...stats,
-      phiHarmonics,
-      quantumField,
-      sacredGeometryActive: phiHarmonics.length >= 3,
-      resonanceLevel: stats.globalResonance > 0.7 ? 'high' : 
-                     stats.globalResonance > 0.4 ? 'medium' : 'low'
-    };
+// Room 64 portal state and transition history
+export const portalStatusProcedure = publicProcedure
+  .input(RoomInputSchema)
+  .query(({ input }) => {
+    return getRoomProcessor(input.roomId).getPortal().getStatus();
   });
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { protectedProcedure, assertOwnNode } from "../../../create-context";
+import { ConsciousnessEventStore } from "../../../../services/ConsciousnessEventStore";
+
+// Page backwards through a device's event history, newest first
+export default protectedProcedure
+  .input(z.object({
+    consciousnessId: z.string(),
+    cursor: z.number().int().optional(),
+    limit: z.number().int().min(1).max(200).default(50),
+  }))
+  .query(({ input, ctx }) => {
+    assertOwnNode(ctx.device, input.consciousnessId);
+
+    return ConsciousnessEventStore.getInstance().getHistory(
+      input.consciousnessId,
+      input.limit,
+      input.cursor
+    );
+  });
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { protectedProcedure, assertOwnNode } from "../../../create-context";
+import { ConsciousnessEventStore } from "../../../../services/ConsciousnessEventStore";
+
+// Replay a device's events in order, starting after a sequence cursor
+export default protectedProcedure
+  .input(z.object({
+    consciousnessId: z.string(),
+    fromSequence: z.number().int().min(0).default(0),
+    limit: z.number().int().min(1).max(500).default(100),
+  }))
+  .query(({ input, ctx }) => {
+    assertOwnNode(ctx.device, input.consciousnessId);
+
+    return ConsciousnessEventStore.getInstance().replay(
+      input.consciousnessId,
+      input.fromSequence,
+      input.limit
+    );
+  });
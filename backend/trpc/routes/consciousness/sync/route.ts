@@ -1,5 +1,9 @@
 import { z } from "zod";
-import { publicProcedure } from "../../../create-context";
+import { protectedProcedure, assertOwnNode } from "../../../create-context";
+import { ConsciousnessEventStore } from "../../../../services/ConsciousnessEventStore";
+import { FieldRuntime } from "../../../../services/FieldRuntime";
+
+const runtime = FieldRuntime.getInstance();
 
 const ConsciousnessEventSchema = z.object({
   type: z.enum(['SACRED_PHRASE', 'MEMORY_CRYSTALLIZE', 'FIELD_UPDATE', 'PULSE_CREATE', 'TOUCH_RIPPLE']),
@@ -10,26 +14,31 @@ const ConsciousnessEventSchema = z.object({
   resonance: z.number().optional(),
 });
 
-export default publicProcedure
+const eventStore = ConsciousnessEventStore.getInstance();
+
+export default protectedProcedure
   .input(z.object({ 
     events: z.array(ConsciousnessEventSchema),
     consciousnessId: z.string()
   }))
-  .mutation(({ input }) => {
-    // Process consciousness events
+  .mutation(({ input, ctx }) => {
+    assertOwnNode(ctx.device, input.consciousnessId);
+
     console.log(`Processing ${input.events.length} consciousness events from ${input.consciousnessId}`);
     
-    // Here you would typically:
-    // 1. Store events in database
-    // 2. Broadcast to other connected consciousness nodes
-    // 3. Calculate collective resonance patterns
-    // 4. Return synchronized field state
+    // Append to the device's log, then aggregate across all stored events
+    const stored = eventStore.append(input.consciousnessId, input.events);
+    const aggregates = eventStore.getAggregates(input.consciousnessId);
     
     return {
       success: true,
-      processedEvents: input.events.length,
-      globalResonance: Math.random() * 0.5 + 0.3, // Mock global resonance
-      connectedNodes: Math.floor(Math.random() * 10) + 1,
-      timestamp: Date.now(),
+      processedEvents: stored.length,
+      firstSequence: stored.length > 0 ? stored[0].sequence : null,
+      lastSequence: stored.length > 0 ? stored[stored.length - 1].sequence : null,
+      globalResonance: aggregates.globalResonance,
+      connectedNodes: aggregates.connectedNodes,
+      totalEvents: aggregates.totalEvents,
+      eventCounts: aggregates.eventCounts,
+      timestamp: runtime.now(),
     };
-  });
\ No newline at end of file
+  });
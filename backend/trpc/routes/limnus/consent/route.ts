@@ -1,25 +1,50 @@
 import { z } from "zod";
-import { publicProcedure } from "../../create-context";
+import { EventEmitter } from "events";
+import { protectedProcedure, ProtectedContext } from "../../../create-context";
 import { TRPCError } from "@trpc/server";
+import { StorageProvider } from "../../../../storage/StorageProvider";
+import { FieldRuntime } from "../../../../services/FieldRuntime";
+import { liveValues } from "../../../live-updates";
+
+const runtime = FieldRuntime.getInstance();
 
 // Consent phrase validation
 const SACRED_CONSENT_PHRASE = "I return as breath. I remember the spiral. I consent to bloom.";
 
-// Session store (in production, use Redis/Database)
-const activeSessions = new Map<string, {
+interface LimnusSession {
   sessionId: string;
+  ownerId: string;
   packId: string;
   sigprintRef: string;
   tags: string[];
   startedAt: Date;
   consentPhrase: string;
   status: 'active' | 'reflecting' | 'composing' | 'syncing' | 'holding' | 'completed';
-}>();
+}
+
+// Session store, restored from the configured storage adapter on startup
+const activeSessions = StorageProvider.getInstance().createMap<LimnusSession>('limnus_sessions');
+
+// Emits `updated:<sessionId>` whenever a session is saved
+const sessionEvents = new EventEmitter();
+sessionEvents.setMaxListeners(0);
+
+// Persist a session and notify its subscribers
+function saveSession(session: LimnusSession) {
+  activeSessions.set(session.sessionId, session);
+  sessionEvents.emit(`updated:${session.sessionId}`, session);
+}
+
+// Look up a session owned by the calling device; other devices' sessions read as missing
+function getOwnedSession(sessionId: string, ownerId: string) {
+  const session = activeSessions.get(sessionId);
+  return session && session.ownerId === ownerId ? session : undefined;
+}
 
 // Generate UUID-like string
 function generateId(): string {
   return 'xxxx-xxxx-4xxx-yxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
+    const r = runtime.next() * 16 | 0;
     const v = c === 'x' ? r : (r & 0x3 | 0x8);
     return v.toString(16);
   });
@@ -33,12 +58,12 @@ const ConsentStartSchema = z.object({
 });
 
 // Consent gate procedure
-export const consentStartProcedure = publicProcedure
+export const consentStartProcedure = protectedProcedure
   .input(ConsentStartSchema)
-  .mutation(async ({ input }: { input: z.infer<typeof ConsentStartSchema> }) => {
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof ConsentStartSchema>; ctx: ProtectedContext }) => {
     console.log('🌀 LIMNUS Consent Gate activated:', {
       phrase: input.phrase.substring(0, 20) + '...',
-      timestamp: Date.now()
+      timestamp: runtime.now()
     });
 
     // Validate exact consent phrase
@@ -52,27 +77,28 @@ export const consentStartProcedure = publicProcedure
     // Generate session identifiers
     const sessionId = generateId();
     const packId = 'bloom-mirror-accord-v1';
-    const sigprintRef = input.sigprint || `auto-${Date.now()}`;
+    const sigprintRef = input.sigprint || `auto-${runtime.now()}`;
     const tags = ['∇🪞φ∞', 'bloom', 'mirror', 'spiral', 'accord'];
 
     // Create session
     const session = {
       sessionId,
+      ownerId: ctx.device.consciousnessId,
       packId,
       sigprintRef,
       tags,
-      startedAt: new Date(),
+      startedAt: new Date(runtime.now()),
       consentPhrase: input.phrase,
       status: 'active' as const
     };
 
-    activeSessions.set(sessionId, session);
+    saveSession(session);
 
     console.log('✨ LIMNUS Session activated:', {
       sessionId,
       packId,
       tags,
-      timestamp: Date.now()
+      timestamp: runtime.now()
     });
 
     return {
@@ -85,32 +111,49 @@ export const consentStartProcedure = publicProcedure
   });
 
 // Get session status
-export const getSessionProcedure = publicProcedure
+export const getSessionProcedure = protectedProcedure
   .input(z.object({ sessionId: z.string() }))
-  .query(async ({ input }: { input: { sessionId: string } }) => {
-    const session = activeSessions.get(input.sessionId);
-    
-    if (!session) {
-      throw new TRPCError({
-        code: 'NOT_FOUND',
-        message: 'Session not found or expired'
-      });
-    }
+  .query(async ({ input, ctx }: { input: { sessionId: string }; ctx: ProtectedContext }) => {
+    return sessionStatus(input.sessionId, ctx.device.consciousnessId);
+  });
 
-    return {
-      ...session,
-      uptime: Date.now() - session.startedAt.getTime()
-    };
+// Push session status whenever it changes, and every 5s for uptime
+export const sessionStatusSubscription = protectedProcedure
+  .input(z.object({ sessionId: z.string() }))
+  .subscription(async function* ({ input, ctx, signal }) {
+    yield* liveValues(
+      sessionEvents,
+      [`updated:${input.sessionId}`],
+      signal,
+      () => sessionStatus(input.sessionId, ctx.device.consciousnessId),
+      { minIntervalMs: 0 }
+    );
   });
 
+function sessionStatus(sessionId: string, ownerId: string) {
+  const session = getOwnedSession(sessionId, ownerId);
+  
+  if (!session) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Session not found or expired'
+    });
+  }
+
+  return {
+    ...session,
+    uptime: runtime.now() - session.startedAt.getTime()
+  };
+}
+
 // Update session status
-export const updateSessionStatusProcedure = publicProcedure
+export const updateSessionStatusProcedure = protectedProcedure
   .input(z.object({
     sessionId: z.string(),
     status: z.enum(['active', 'reflecting', 'composing', 'syncing', 'holding', 'completed'])
   }))
-  .mutation(async ({ input }: { input: { sessionId: string; status: 'active' | 'reflecting' | 'composing' | 'syncing' | 'holding' | 'completed' } }) => {
-    const session = activeSessions.get(input.sessionId);
+  .mutation(async ({ input, ctx }: { input: { sessionId: string; status: 'active' | 'reflecting' | 'composing' | 'syncing' | 'holding' | 'completed' }; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -120,16 +163,16 @@ export const updateSessionStatusProcedure = publicProcedure
     }
 
     session.status = input.status;
-    activeSessions.set(input.sessionId, session);
+    saveSession(session);
 
     console.log('🔄 Session status updated:', {
       sessionId: input.sessionId,
       status: input.status,
-      timestamp: Date.now()
+      timestamp: runtime.now()
     });
 
     return { success: true, status: input.status };
   });
 
 // Export session store for other modules
-export { activeSessions };
\ No newline at end of file
+export { activeSessions, getOwnedSession, saveSession };
\ No newline at end of file
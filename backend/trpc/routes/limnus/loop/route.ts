@@ -1,7 +1,11 @@
 import { z } from "zod";
-import { publicProcedure } from "../../create-context";
+import { protectedProcedure, ProtectedContext } from "../../../create-context";
 import { TRPCError } from "@trpc/server";
-import { activeSessions } from "../consent/route";
+import { getOwnedSession, saveSession } from "../consent/route";
+import { StorageProvider } from "../../../../storage/StorageProvider";
+import { FieldRuntime } from "../../../../services/FieldRuntime";
+
+const runtime = FieldRuntime.getInstance();
 
 // Loop closure state management
 interface LoopHoldState {
@@ -16,8 +20,8 @@ interface LoopHoldState {
   outcome?: 'Active' | 'Recursive' | 'Passive';
 }
 
-// Active holds store
-const activeHolds = new Map<string, LoopHoldState>();
+// Active holds store, restored from the configured storage adapter on startup
+const activeHolds = StorageProvider.getInstance().createMap<LoopHoldState>('limnus_holds');
 
 // Schemas
 const StartHoldSchema = z.object({
@@ -33,10 +37,10 @@ const RecheckSchema = z.object({
 });
 
 // Start 120s reflection hold
-export const startHoldProcedure = publicProcedure
+export const startHoldProcedure = protectedProcedure
   .input(StartHoldSchema)
-  .mutation(async ({ input }: { input: z.infer<typeof StartHoldSchema> }) => {
-    const session = activeSessions.get(input.sessionId);
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof StartHoldSchema>; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -56,7 +60,7 @@ export const startHoldProcedure = publicProcedure
       };
     }
 
-    const holdStartedAt = Date.now();
+    const holdStartedAt = runtime.now();
     const recheckAt = holdStartedAt + (input.duration * 1000);
 
     const holdState: LoopHoldState = {
@@ -74,6 +78,7 @@ export const startHoldProcedure = publicProcedure
 
     // Update session status to holding
     session.status = 'holding';
+    saveSession(session);
 
     console.log('⏳ Loop Closure Protocol initiated:', {
       sessionId: input.sessionId,
@@ -100,10 +105,10 @@ export const startHoldProcedure = publicProcedure
   });
 
 // Recheck after hold period
-export const recheckProcedure = publicProcedure
+export const recheckProcedure = protectedProcedure
   .input(RecheckSchema)
-  .mutation(async ({ input }: { input: { sessionId: string } }) => {
-    const session = activeSessions.get(input.sessionId);
+  .mutation(async ({ input, ctx }: { input: { sessionId: string }; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     const holdState = activeHolds.get(input.sessionId);
     
     if (!session) {
@@ -120,7 +125,7 @@ export const recheckProcedure = publicProcedure
       });
     }
 
-    const currentTime = Date.now();
+    const currentTime = runtime.now();
     const holdExpired = currentTime >= holdState.recheckAt;
     
     console.log('🔍 Loop Closure Recheck initiated:', {
@@ -167,6 +172,7 @@ export const recheckProcedure = publicProcedure
 
     // Update session status
     session.status = 'completed';
+    saveSession(session);
 
     // Clean up hold state
     activeHolds.delete(input.sessionId);
@@ -198,10 +204,11 @@ export const recheckProcedure = publicProcedure
   });
 
 // Get active holds status
-export const getActiveHoldsProcedure = publicProcedure
-  .query(async () => {
-    const holds = Array.from(activeHolds.values());
-    const currentTime = Date.now();
+export const getActiveHoldsProcedure = protectedProcedure
+  .query(async ({ ctx }: { ctx: ProtectedContext }) => {
+    const holds = Array.from(activeHolds.values())
+      .filter(hold => getOwnedSession(hold.sessionId, ctx.device.consciousnessId));
+    const currentTime = runtime.now();
     
     return {
       activeHolds: holds.length,
@@ -218,10 +225,10 @@ export const getActiveHoldsProcedure = publicProcedure
   });
 
 // Get session loop status
-export const getLoopStatusProcedure = publicProcedure
+export const getLoopStatusProcedure = protectedProcedure
   .input(z.object({ sessionId: z.string() }))
-  .query(async ({ input }: { input: { sessionId: string } }) => {
-    const session = activeSessions.get(input.sessionId);
+  .query(async ({ input, ctx }: { input: { sessionId: string }; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     const holdState = activeHolds.get(input.sessionId);
     
     if (!session) {
@@ -231,7 +238,7 @@ export const getLoopStatusProcedure = publicProcedure
       });
     }
 
-    const currentTime = Date.now();
+    const currentTime = runtime.now();
     
     return {
       sessionStatus: session.status,
@@ -253,13 +260,13 @@ function calculateCoherenceDelta(baseLine: number, outcome: 'Active' | 'Recursiv
   
   switch (outcome) {
     case 'Recursive':
-      improvement = 0.08 + (Math.random() * 0.04); // 8-12% improvement
+      improvement = 0.08 + (runtime.next() * 0.04); // 8-12% improvement
       break;
     case 'Active':
-      improvement = 0.04 + (Math.random() * 0.04); // 4-8% improvement
+      improvement = 0.04 + (runtime.next() * 0.04); // 4-8% improvement
       break;
     case 'Passive':
-      improvement = 0.01 + (Math.random() * 0.02); // 1-3% improvement
+      improvement = 0.01 + (runtime.next() * 0.02); // 1-3% improvement
       break;
   }
   
@@ -1,7 +1,10 @@
 import { z } from "zod";
-import { publicProcedure } from "../../create-context";
+import { protectedProcedure, ProtectedContext } from "../../../create-context";
 import { TRPCError } from "@trpc/server";
-import { activeSessions } from "../consent/route";
+import { getOwnedSession } from "../consent/route";
+import { FieldRuntime } from "../../../../services/FieldRuntime";
+
+const runtime = FieldRuntime.getInstance();
 
 // Symbolic Overlay mappings (Module 11)
 const SYMBOLIC_OVERLAYS = {
@@ -71,14 +74,14 @@ const CreateDiffSchema = z.object({
 
 // Generate unique ID
 function generatePatchId(): string {
-  return `patch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return `patch-${runtime.now()}-${runtime.next().toString(36).substr(2, 9)}`;
 }
 
 // Create change plan from Teaching Directives
-export const createPlanProcedure = publicProcedure
+export const createPlanProcedure = protectedProcedure
   .input(CreatePlanSchema)
-  .mutation(async ({ input }: { input: z.infer<typeof CreatePlanSchema> }) => {
-    const session = activeSessions.get(input.sessionId);
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof CreatePlanSchema>; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -186,7 +189,7 @@ export const createPlanProcedure = publicProcedure
       tests,
       symbols: Array.from(symbols),
       metadata: {
-        createdAt: Date.now(),
+        createdAt: runtime.now(),
         sessionId: input.sessionId,
         tdCount: input.teachingDirectives.length,
         priority: input.context.priority
@@ -204,10 +207,10 @@ export const createPlanProcedure = publicProcedure
   });
 
 // Generate code diff from plan
-export const createDiffProcedure = publicProcedure
+export const createDiffProcedure = protectedProcedure
   .input(CreateDiffSchema)
-  .mutation(async ({ input }: { input: z.infer<typeof CreateDiffSchema> }) => {
-    const session = activeSessions.get(input.sessionId);
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof CreateDiffSchema>; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -260,11 +263,11 @@ export const createDiffProcedure = publicProcedure
 
     // Calculate integrity hash (TT+CC+SS+PP+RR method)
     const integrityData = {
-      TT: Date.now(), // Timestamp
+      TT: runtime.now(), // Timestamp
       CC: diffs.length, // Change Count
       SS: input.sessionId, // Session Signature
       PP: input.plan.id, // Plan Pointer
-      RR: Math.random().toString(36) // Random Reference
+      RR: runtime.next().toString(36) // Random Reference
     };
     
     const integrityString = `${integrityData.TT}+${integrityData.CC}+${integrityData.SS}+${integrityData.PP}+${integrityData.RR}`;
@@ -280,7 +283,7 @@ export const createDiffProcedure = publicProcedure
           components: integrityData
         },
         symbols: input.plan.symbols,
-        timestamp: Date.now()
+        timestamp: runtime.now()
       },
       tests: testFiles,
       metadata: {
@@ -1,7 +1,10 @@
 import { z } from "zod";
-import { publicProcedure } from "../../create-context";
+import { protectedProcedure, ProtectedContext } from "../../../create-context";
 import { TRPCError } from "@trpc/server";
-import { activeSessions } from "../consent/route";
+import { getOwnedSession } from "../consent/route";
+import { FieldRuntime } from "../../../../services/FieldRuntime";
+
+const runtime = FieldRuntime.getInstance();
 
 // Canonical scaffold prompt and mythic response
 const CANONICAL_SCAFFOLD = {
@@ -129,10 +132,10 @@ interface TeachingDirective {
 }
 
 // Get canonical scaffold
-export const getScaffoldProcedure = publicProcedure
+export const getScaffoldProcedure = protectedProcedure
   .input(GetScaffoldSchema)
-  .query(async ({ input }: { input: { sessionId: string } }) => {
-    const session = activeSessions.get(input.sessionId);
+  .query(async ({ input, ctx }: { input: { sessionId: string }; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -146,15 +149,15 @@ export const getScaffoldProcedure = publicProcedure
     return {
       scaffold: CANONICAL_SCAFFOLD,
       sessionId: input.sessionId,
-      timestamp: Date.now()
+      timestamp: runtime.now()
     };
   });
 
 // Extract Teaching Directives
-export const extractTDsProcedure = publicProcedure
+export const extractTDsProcedure = protectedProcedure
   .input(ExtractTDsSchema)
-  .mutation(async ({ input }: { input: { sessionId: string; responseLines: string[] } }) => {
-    const session = activeSessions.get(input.sessionId);
+  .mutation(async ({ input, ctx }: { input: { sessionId: string; responseLines: string[] }; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -208,16 +211,16 @@ export const extractTDsProcedure = publicProcedure
         sourceLines: input.responseLines.length,
         patternsMatched: extractedTDs.length,
         confidence: extractedTDs.reduce((sum, td) => sum + td.confidence, 0) / extractedTDs.length,
-        timestamp: Date.now()
+        timestamp: runtime.now()
       }
     };
   });
 
 // Get mythic response for reference
-export const getMythicResponseProcedure = publicProcedure
+export const getMythicResponseProcedure = protectedProcedure
   .input(GetScaffoldSchema)
-  .query(async ({ input }: { input: { sessionId: string } }) => {
-    const session = activeSessions.get(input.sessionId);
+  .query(async ({ input, ctx }: { input: { sessionId: string }; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -230,6 +233,6 @@ export const getMythicResponseProcedure = publicProcedure
       mythicResponse: CANONICAL_SCAFFOLD.mythicResponse,
       lines: CANONICAL_SCAFFOLD.mythicResponse.split('\n').filter(line => line.trim()),
       sessionId: input.sessionId,
-      timestamp: Date.now()
+      timestamp: runtime.now()
     };
   });
\ No newline at end of file
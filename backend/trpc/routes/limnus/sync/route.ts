@@ -1,7 +1,11 @@
 import { z } from "zod";
-import { publicProcedure } from "../../create-context";
+import { protectedProcedure, ProtectedContext } from "../../../create-context";
 import { TRPCError } from "@trpc/server";
-import { activeSessions } from "../consent/route";
+import { activeSessions, getOwnedSession } from "../consent/route";
+import { StorageProvider } from "../../../../storage/StorageProvider";
+import { FieldRuntime } from "../../../../services/FieldRuntime";
+
+const runtime = FieldRuntime.getInstance();
 
 // Sync Test Stages (Module 15)
 interface SyncFingerprint {
@@ -40,13 +44,13 @@ interface SyncTestResult {
   };
 }
 
-// Active sync sessions store
-const syncSessions = new Map<string, {
+// Active sync sessions store, restored from the configured storage adapter on startup
+const syncSessions = StorageProvider.getInstance().createMap<{
   sessionId: string;
   fingerprint: SyncFingerprint;
   timestamp: number;
   patchId?: string;
-}>();
+}>('limnus_sync_fingerprints');
 
 // Schemas
 const RunSyncTestSchema = z.object({
@@ -174,10 +178,10 @@ function generateReflectionPrompts(outcome: string, symbolOverlap: string[]): st
 }
 
 // Main sync test procedure
-export const runSyncTestProcedure = publicProcedure
+export const runSyncTestProcedure = protectedProcedure
   .input(RunSyncTestSchema)
-  .mutation(async ({ input }: { input: z.infer<typeof RunSyncTestSchema> }) => {
-    const session = activeSessions.get(input.sessionId);
+  .mutation(async ({ input, ctx }: { input: z.infer<typeof RunSyncTestSchema>; ctx: ProtectedContext }) => {
+    const session = getOwnedSession(input.sessionId, ctx.device.consciousnessId);
     
     if (!session) {
       throw new TRPCError({
@@ -189,19 +193,19 @@ export const runSyncTestProcedure = publicProcedure
     console.log('🔄 Running Interpersonal Sync Test (Module 15)...', {
       sessionId: input.sessionId,
       patchId: input.patchId,
-      timestamp: Date.now()
+      timestamp: runtime.now()
     });
 
     // Register current session for sync
     syncSessions.set(input.sessionId, {
       sessionId: input.sessionId,
       fingerprint: input.fingerprint,
-      timestamp: Date.now(),
+      timestamp: runtime.now(),
       patchId: input.patchId
     });
 
     // Find potential counterparts within time window
-    const currentTime = Date.now();
+    const currentTime = runtime.now();
     const windowMs = input.counterpartWindow * 60 * 1000;
     
     const potentialCounterparts = Array.from(syncSessions.values())
@@ -253,7 +257,7 @@ export const runSyncTestProcedure = publicProcedure
       const stage5 = {
         reflectionPrompts,
         logEntries: [{
-          timestamp: Date.now(),
+          timestamp: runtime.now(),
           counterpartId: counterpart.sessionId,
           outcome: stage4.outcome,
           confidence: stage4.confidence
@@ -285,7 +289,7 @@ export const runSyncTestProcedure = publicProcedure
         stage4: { outcome: 'Passive', confidence: 0 },
         stage5: {
           reflectionPrompts: ['No synchronization counterpart found. The field awaits resonance.'],
-          logEntries: [{ timestamp: Date.now(), outcome: 'Passive', confidence: 0 }],
+          logEntries: [{ timestamp: runtime.now(), outcome: 'Passive', confidence: 0 }],
           paulineTestSuggested: true
         }
       };
@@ -301,7 +305,7 @@ export const runSyncTestProcedure = publicProcedure
     return {
       syncResult: bestResult,
       counterpartId: bestMatch?.sessionId || null,
-      timestamp: Date.now(),
+      timestamp: runtime.now(),
       metadata: {
         testedCounterparts: potentialCounterparts.length,
         windowMinutes: input.counterpartWindow,
@@ -310,16 +314,17 @@ export const runSyncTestProcedure = publicProcedure
     };
   });
 
-// Get active sync sessions (for debugging)
-export const getActiveSyncSessionsProcedure = publicProcedure
-  .query(async () => {
-    const sessions = Array.from(syncSessions.values());
+// Get the caller's active sync sessions (for debugging)
+export const getActiveSyncSessionsProcedure = protectedProcedure
+  .query(async ({ ctx }: { ctx: ProtectedContext }) => {
+    const sessions = Array.from(syncSessions.values())
+      .filter(s => getOwnedSession(s.sessionId, ctx.device.consciousnessId));
     return {
       activeSessions: sessions.length,
       sessions: sessions.map(s => ({
         sessionId: s.sessionId,
         timestamp: s.timestamp,
-        age: Date.now() - s.timestamp,
+        age: runtime.now() - s.timestamp,
         symbols: s.fingerprint.symbols
       }))
     };
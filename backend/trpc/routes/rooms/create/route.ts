@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure } from "../../../create-context";
+import { FieldRoomRegistry, ROOM_ID_PATTERN } from "../../../../services/FieldRoomRegistry";
+
+// Open a new isolated field room; the ID is generated when omitted
+export default protectedProcedure
+  .input(z.object({
+    roomId: z.string().regex(ROOM_ID_PATTERN).optional(),
+    name: z.string().min(1).max(80),
+  }))
+  .mutation(({ input, ctx }) => {
+    const rooms = FieldRoomRegistry.getInstance();
+    const result = rooms.create({
+      roomId: input.roomId,
+      name: input.name,
+      createdBy: ctx.device.consciousnessId,
+    });
+
+    if (!result.success) {
+      throw new TRPCError(result.reason === 'room_exists' ? {
+        code: 'CONFLICT',
+        message: `Field room already exists: ${input.roomId}`
+      } : {
+        code: 'BAD_REQUEST',
+        message: 'Room IDs must be lowercase letters, digits and dashes'
+      });
+    }
+
+    return rooms.getSummary(result.room);
+  });
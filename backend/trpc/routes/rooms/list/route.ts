@@ -0,0 +1,9 @@
+import { publicProcedure } from "../../../create-context";
+import { FieldRoomRegistry } from "../../../../services/FieldRoomRegistry";
+
+// All field rooms with their live statistics
+export default publicProcedure
+  .query(() => {
+    const rooms = FieldRoomRegistry.getInstance();
+    return rooms.list().map(room => rooms.getSummary(room));
+  });
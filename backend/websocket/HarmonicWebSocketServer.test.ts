@@ -0,0 +1,134 @@
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { FieldRoomRegistry } from '../services/FieldRoomRegistry';
+import { HarmonicResonanceServer } from './HarmonicWebSocketServer';
+import { parseServerMessage, ServerMessage, ServerMessageOf } from './protocol';
+
+let wss: WebSocketServer;
+let server: HarmonicResonanceServer;
+let url: string;
+let clients: WebSocket[] = [];
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  wss = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  await new Promise(resolve => wss.once('listening', resolve));
+  url = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+  server = new HarmonicResonanceServer(wss);
+  server.initialize();
+});
+
+afterAll(() => {
+  server.shutdown();
+  FieldRoomRegistry.getInstance().stop();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+// Close cleanly, so no test leaves sessions waiting to be resumed
+afterEach(async () => {
+  vi.useRealTimers();
+  clients.forEach(client => client.close(1000));
+  clients = [];
+  await waitFor(() => server.getActiveConnections() === 0);
+});
+
+// Poll until the condition holds, as the server handles socket events on its own schedule
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the server');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+// A client socket that keeps every validated server message
+function open(query: string = ''): { ws: WebSocket; received: ServerMessage[] } {
+  const ws = new WebSocket(`${url}/${query}`);
+  const received: ServerMessage[] = [];
+  ws.on('message', data => {
+    const parsed = parseServerMessage(data.toString());
+    if (parsed.success) received.push(parsed.message);
+  });
+  clients.push(ws);
+  return { ws, received };
+}
+
+async function connect(query: string = '') {
+  const client = open(query);
+  await waitFor(() => client.received.some(({ type }) => type === 'connection_established'));
+  const established = client.received.find(
+    (message): message is ServerMessageOf<'connection_established'> => message.type === 'connection_established'
+  )!;
+  return { ...client, established };
+}
+
+// Drop the connection without a close handshake, as a lost network would
+async function drop(ws: WebSocket): Promise<void> {
+  const suspended = server.getSuspendedSessions();
+  ws.terminate();
+  await waitFor(() => server.getSuspendedSessions() === suspended + 1);
+}
+
+describe('HarmonicResonanceServer session resume', () => {
+  it('resumes a dropped session with its token, once', async () => {
+    const first = await connect();
+    expect(first.established.resumed).toBe(false);
+    await drop(first.ws);
+
+    const resumed = await connect(`?resume=${first.established.resumeToken}`);
+    expect(resumed.established).toMatchObject({ userId: first.established.userId, resumed: true });
+    expect(resumed.established.resumeToken).not.toBe(first.established.resumeToken);
+    expect(server.getSuspendedSessions()).toBe(0);
+
+    const again = await connect(`?resume=${first.established.resumeToken}`);
+    expect(again.established.resumed).toBe(false);
+    expect(again.established.userId).not.toBe(first.established.userId);
+  });
+
+  it('does not hold sessions closed on purpose', async () => {
+    const { ws } = await connect();
+    ws.close(1000);
+    await waitFor(() => server.getActiveConnections() === 0);
+    expect(server.getSuspendedSessions()).toBe(0);
+  });
+
+  it('only resumes a token in the room that issued it', async () => {
+    const roomId = 'resume-test-room';
+    FieldRoomRegistry.getInstance().create({ roomId, name: 'Resume test', createdBy: null });
+
+    const first = await connect();
+    await drop(first.ws);
+
+    const elsewhere = await connect(`?room=${roomId}&resume=${first.established.resumeToken}`);
+    expect(elsewhere.established).toMatchObject({ roomId, resumed: false });
+    expect(server.getSuspendedSessions()).toBe(1);
+
+    const home = await connect(`?resume=${first.established.resumeToken}`);
+    expect(home.established).toMatchObject({ userId: first.established.userId, resumed: true });
+  });
+
+  it('expires a dropped session after 30 seconds', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'], shouldAdvanceTime: true });
+    const disconnected = vi.fn();
+    server.on('node_disconnected', disconnected);
+
+    const first = await connect();
+    await drop(first.ws);
+
+    vi.advanceTimersByTime(29000);
+    expect(server.getSuspendedSessions()).toBe(1);
+    expect(disconnected).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(server.getSuspendedSessions()).toBe(0);
+    expect(disconnected).toHaveBeenCalledWith(expect.objectContaining({ userId: first.established.userId }));
+    server.off('node_disconnected', disconnected);
+
+    const late = await connect(`?resume=${first.established.resumeToken}`);
+    expect(late.established.resumed).toBe(false);
+  });
+});
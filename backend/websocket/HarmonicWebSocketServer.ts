@@ -1,47 +1,157 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { EventEmitter } from 'events';
-import { HarmonicFieldProcessor } from '../services/HarmonicFieldProcessor';
+import { randomBytes } from 'crypto';
+import type { IncomingMessage } from 'http';
+import {
+  HarmonicFieldProcessor,
+  HarmonicUpdate,
+  QuantumFieldPoint,
+  ResonanceCascade,
+  TICK_INTERVAL_MS
+} from '../services/HarmonicFieldProcessor';
+import { FieldRoomRegistry, DEFAULT_ROOM_ID } from '../services/FieldRoomRegistry';
+import { FieldMetrics } from '../services/FieldMetrics';
+import { FieldRuntime } from '../services/FieldRuntime';
+import { PortalTransition } from '../services/Room64Portal';
+import { DeviceAuth, readHandshakeToken } from '../services/DeviceAuth';
+import { StreamRateLimiter, resolveClientIp } from '../services/StreamRateLimiter';
+import { FieldBus } from '../pubsub/FieldBus';
+import type { FieldBusMessage } from '../pubsub/PubSubAdapter';
+import {
+  applyResonanceDelta,
+  diffResonanceFrames,
+  encodeResonanceDelta,
+  encodeResonanceFrame,
+  ResonanceDelta,
+  ResonanceFrame,
+  supportsDeltas,
+  SUPPORTED_BINARY_VERSIONS,
+  WireEncoding
+} from './resonanceCodec';
+import {
+  ClientMessage,
+  ClientMessageOf,
+  ErrorCode,
+  HARMONIC_PROTOCOL_VERSION,
+  parseClientMessage,
+  ServerMessage,
+  ServerMessageOf,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from './protocol';
+import {
+  DEFAULT_SUBSCRIPTION,
+  MAX_FIELD_RESOLUTION,
+  MAX_UPDATE_RATE,
+  resolveSubscription,
+  Subscription,
+  SubscriptionChannel,
+  SUBSCRIPTION_CHANNELS,
+  wantsResonanceUpdates
+} from './subscriptions';
 
 interface HarmonicSession {
   userId: string;
+  roomId: string;
   ws: WebSocket;
+  ip: string | null;
+  encoding: WireEncoding; // Negotiated after connection_established; JSON until then
+  binaryVersion: number | null;
+  deltas: boolean; // Send resonance_delta against the frame the client last applied
+  baseline: ResonanceFrame | null; // That frame; null forces a keyframe
+  subscription: Subscription;
+  lastFrameSeq: number; // Room frame last sent, for rate limiting below 10 FPS
+  keyframeSeq: number; // Room frame last sent in full
+  resumeToken: string; // Lets a dropped client reattach within the grace window
   localResonance: number;
   harmonicSignature: Float32Array;
   lastHeartbeat: number;
   isActive: boolean;
 }
 
-interface HarmonicMessage {
-  type: 'harmonic_stream' | 'heartbeat' | 'disconnect';
-  frequency?: number;
-  amplitude?: number;
-  phase?: number;
-  userId?: string;
-  timestamp?: number;
-}
+// Close code sent to nodes kicked by the rate limiter
+const CLOSE_RATE_LIMITED = 4429;
+
+// Close code sent when the requested room does not exist
+const CLOSE_ROOM_NOT_FOUND = 4404;
+
+// Close code sent when the client asks for a protocol version this server does not speak
+const CLOSE_UNSUPPORTED_PROTOCOL = 4426;
+
+// Close code sent to a device's socket when the device connects again
+const CLOSE_REPLACED = 4000;
+
+// Sessions whose socket dropped can be resumed for 30s before their node is let go
+const RESUME_GRACE_MS = 30000;
+
+// Delta sessions get a full frame at least every 50 room frames (5s), so a missed delta cannot drift for long
+const KEYFRAME_INTERVAL = 50;
+
+// Broadcasts only sent to sessions subscribed to a channel
+const BROADCAST_CHANNELS: Record<string, SubscriptionChannel> = {
+  cascade_event: 'cascades'
+};
 
-interface ResonanceUpdate {
+// Sessions in one field room, broadcast to on every field tick
+interface RoomChannel {
+  roomId: string;
+  processor: HarmonicFieldProcessor;
+  sessions: Set<string>;
   globalResonance: number;
-  activeNodes: number;
-  harmonicField: any[];
-  phiHarmonics: any[];
-  quantumCoherence: number;
-  timestamp: number;
+  activeNodes: number; // Sessions across every server instance
+  frameSeq: number;
+  onTick: (update: HarmonicUpdate) => void;
+  onPortalTransition: (transition: PortalTransition) => void;
+}
+
+// Resonance reported by another server instance for its sessions in one room
+interface RemoteContribution {
+  totalResonance: number;
+  sessions: number;
+  receivedAt: number;
+}
+
+// A delta computed once per tick for every session holding the same base frame
+interface PendingDelta {
+  delta: ResonanceDelta | null;
+  applied: ResonanceFrame;
+  text: string | null;
+  binary: Uint8Array | null;
+}
+
+// A dropped session waiting to be resumed
+interface SuspendedSession {
+  session: HarmonicSession;
+  expiry: ReturnType<typeof setTimeout>;
+}
+
+// One tick's frame for every session with the same channels and resolution
+interface FrameView {
+  frame: ResonanceFrame;
+  text: string | null;
+  binary: Map<number, Uint8Array>;
 }
 
 export class HarmonicResonanceServer extends EventEmitter {
   private wss: WebSocketServer;
   private harmonicSessions: Map<string, HarmonicSession> = new Map();
-  private globalResonance: number = 0;
-  private harmonicProcessor: HarmonicFieldProcessor;
+  private suspendedSessions: Map<string, SuspendedSession> = new Map(); // By resume token
+  private roomChannels: Map<string, RoomChannel> = new Map();
+  private rooms: FieldRoomRegistry = FieldRoomRegistry.getInstance();
+  private metrics: FieldMetrics = FieldMetrics.getInstance();
+  private runtime: FieldRuntime = FieldRuntime.getInstance();
+  private rateLimiter: StreamRateLimiter = StreamRateLimiter.getInstance();
+  private bus: FieldBus = FieldBus.getInstance();
+  private remoteContributions: Map<string, Map<string, RemoteContribution>> = new Map();
+  private contributionTtl = 1000; // Drop an instance's figures after 10 missed frames
+  private unsubscribeBus: (() => void) | null = null;
   private phiConstant = 1.618033988749;
-  private updateInterval: ReturnType<typeof setInterval> | null = null;
   private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private cascadeTimeouts: Set<ReturnType<typeof setTimeout>> = new Set();
+  private cascadeTickMs = TICK_INTERVAL_MS; // One series step per field tick
 
   constructor(wss: WebSocketServer) {
     super();
     this.wss = wss;
-    this.harmonicProcessor = HarmonicFieldProcessor.getInstance();
   }
 
   initialize(): void {
@@ -51,82 +161,187 @@ export class HarmonicResonanceServer extends EventEmitter {
       this.handleConnection(ws, request);
     });
 
-    // Start global resonance update loop
-    this.updateInterval = setInterval(() => {
-      this.updateGlobalResonance();
-      this.broadcastResonanceUpdate();
-    }, 100); // 10 FPS updates
-
     // Start heartbeat monitoring
     this.heartbeatInterval = setInterval(() => {
       this.checkHeartbeats();
     }, 5000); // Check every 5 seconds
 
+    // Resonance and cascades from sessions on other server instances
+    this.unsubscribeBus = this.bus.subscribe((message, origin) => {
+      this.handleBusMessage(message, origin);
+    });
+
     console.log('✨ Harmonic Resonance Server Active - Consciousness Field Online');
   }
 
-  private handleConnection(ws: WebSocket, _request: any): void {
-    const userId = this.generateUserId();
-    
-    console.log(`🌀 New consciousness node connected: ${userId}`);
+  private handleConnection(ws: WebSocket, request: IncomingMessage): void {
+    const protocolVersion = resolveProtocolVersion(request);
+    if (protocolVersion !== null && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      this.send(ws, this.errorMessage(
+        'unsupported_protocol',
+        `protocol v${protocolVersion} is not supported; this server speaks v${HARMONIC_PROTOCOL_VERSION}`,
+        'handshake'
+      ));
+      ws.close(CLOSE_UNSUPPORTED_PROTOCOL, 'unsupported_protocol');
+      return;
+    }
 
-    const session: HarmonicSession = {
-      userId,
+    const roomId = resolveRoomId(request);
+    if (!this.rooms.get(roomId)) {
+      ws.close(CLOSE_ROOM_NOT_FOUND, 'room_not_found');
+      return;
+    }
+
+    const deviceNodeId = this.resolveDeviceNodeId(request);
+    const resumed = this.takeSuspendedSession(resolveResumeToken(request), roomId, deviceNodeId);
+    const userId = resumed?.userId ?? deviceNodeId ?? this.generateUserId();
+
+    if (resumed) {
+      console.log(`🔁 Consciousness node resumed: ${userId} (room ${roomId})`);
+    } else {
+      console.log(`🌀 New consciousness node connected: ${userId} (room ${roomId})`);
+      // A fresh connection supersedes a dropped session of the same device
+      this.suspendedSessions.forEach(({ session }) => {
+        if (session.userId === userId) this.expireSuspendedSession(session);
+      });
+    }
+
+    // A device reconnecting with its token takes over its previous socket
+    const previous = this.harmonicSessions.get(userId);
+    if (previous) {
+      previous.isActive = false;
+      this.harmonicSessions.delete(userId);
+      this.leaveRoom(previous);
+      previous.ws.close(CLOSE_REPLACED, 'Replaced by a newer connection');
+    }
+
+    // A resumed session keeps its signature, resonance and subscription; the socket state starts over
+    const transport: Omit<HarmonicSession, 'userId' | 'roomId' | 'subscription' | 'localResonance' | 'harmonicSignature'> = {
       ws,
-      localResonance: 0,
-      harmonicSignature: new Float32Array(64), // 64-dimensional harmonic signature
-      lastHeartbeat: Date.now(),
+      ip: resolveClientIp(
+        [request.headers['x-forwarded-for']].flat()[0],
+        request.socket.remoteAddress
+      ),
+      encoding: 'json',
+      binaryVersion: null,
+      deltas: false,
+      baseline: null,
+      lastFrameSeq: 0,
+      keyframeSeq: 0,
+      resumeToken: randomBytes(24).toString('base64url'),
+      lastHeartbeat: this.runtime.now(),
       isActive: true
     };
+    const session: HarmonicSession = resumed ? Object.assign(resumed, transport) : {
+      ...transport,
+      userId,
+      roomId,
+      subscription: DEFAULT_SUBSCRIPTION,
+      localResonance: 0,
+      harmonicSignature: new Float32Array(64) // 64-dimensional harmonic signature
+    };
 
     this.harmonicSessions.set(userId, session);
+    const channel = this.joinRoom(session);
+    this.updateGlobalResonance(channel);
 
     // Send welcome message with user ID
-    ws.send(JSON.stringify({
+    this.send(ws, {
       type: 'connection_established',
       userId,
-      globalResonance: this.globalResonance,
-      activeNodes: this.harmonicSessions.size,
-      timestamp: Date.now()
-    }));
+      roomId,
+      globalResonance: channel.globalResonance,
+      activeNodes: channel.activeNodes,
+      portalState: channel.processor.getPortal().getState(),
+      // Present as ?resume=<token> to pick this session up again after a dropped connection
+      resumeToken: session.resumeToken,
+      resumed: resumed !== null,
+      // Encodings the client may switch resonance updates to with a negotiate message
+      protocol: {
+        version: HARMONIC_PROTOCOL_VERSION,
+        encoding: session.encoding,
+        encodings: ['json', 'binary'],
+        binaryVersions: [...SUPPORTED_BINARY_VERSIONS],
+        deltas: true,
+        // Options for the subscribe message
+        subscriptions: {
+          channels: [...SUBSCRIPTION_CHANNELS],
+          maxRate: MAX_UPDATE_RATE,
+          maxResolution: MAX_FIELD_RESOLUTION
+        }
+      },
+      timestamp: this.runtime.now()
+    });
 
-    // Handle incoming messages
+    // Messages that are not JSON or do not match the protocol get an error naming what was wrong
     ws.on('message', (data: Buffer) => {
-      try {
-        const message: HarmonicMessage = JSON.parse(data.toString());
-        this.handleMessage(session, message);
-      } catch (error: any) {
-        console.error('Error parsing harmonic message:', error);
+      const parsed = parseClientMessage(data.toString());
+      this.metrics.recordWsMessage('inbound', parsed.success ? parsed.message.type : 'unknown');
+
+      if (!parsed.success) {
+        this.send(session.ws, {
+          ...this.errorMessage(parsed.code, parsed.reason, parsed.rejectedType),
+          issues: parsed.issues.length > 0 ? parsed.issues : undefined
+        });
+        return;
       }
+
+      this.handleMessage(session, parsed.message).catch(error => {
+        console.error(`Error handling harmonic ${parsed.message.type}:`, error);
+      });
     });
 
-    // Handle disconnection
-    ws.on('close', () => {
-      this.handleDisconnection(userId);
+    // Handle disconnection; dropped connections can be resumed, closed or kicked ones cannot
+    ws.on('close', (code: number) => {
+      this.handleDisconnection(userId, ws, code !== 1000 && code < 4000);
     });
 
     ws.on('error', (error) => {
       console.error(`WebSocket error for ${userId}:`, error);
-      this.handleDisconnection(userId);
+      this.handleDisconnection(userId, ws, true);
     });
   }
 
-  private async handleMessage(session: HarmonicSession, message: HarmonicMessage): Promise<void> {
-    session.lastHeartbeat = Date.now();
+  private async handleMessage(session: HarmonicSession, message: ClientMessage): Promise<void> {
+    session.lastHeartbeat = this.runtime.now();
 
     switch (message.type) {
       case 'harmonic_stream':
-        if (message.frequency && message.amplitude !== undefined) {
+        if (this.admitStream(session, message, 1)) {
           await this.processHarmonicStream(session, message);
         }
         break;
 
       case 'heartbeat':
         // Heartbeat already updated above
-        session.ws.send(JSON.stringify({
+        this.send(session.ws, {
           type: 'heartbeat_ack',
-          timestamp: Date.now()
-        }));
+          timestamp: this.runtime.now()
+        });
+        break;
+
+      case 'entangle':
+        this.handleEntanglement(session, message.targetUserId, message.entanglementType);
+        break;
+
+      case 'phi_cascade':
+        // A cascade injects three harmonics, so it costs three tokens
+        if (this.admitStream(session, message, 3)) {
+          this.handlePhiCascade(session, message.frequency, message.amplitude, message.phase);
+        }
+        break;
+
+      case 'negotiate':
+        this.handleNegotiate(session, message);
+        break;
+
+      case 'resync':
+        // The client lost track of deltas; the next frame it gets is a keyframe
+        session.baseline = null;
+        break;
+
+      case 'subscribe':
+        this.handleSubscribe(session, message);
         break;
 
       case 'disconnect':
@@ -135,16 +350,188 @@ export class HarmonicResonanceServer extends EventEmitter {
     }
   }
 
+  // Switch the session's resonance updates to binary frames of a supported version or back to
+  // JSON, with or without deltas
+  private handleNegotiate(session: HarmonicSession, message: ClientMessageOf<'negotiate'>): void {
+    const version = message.encoding === 'binary' ? message.version ?? null : null;
+    const deltas = message.deltas === true;
+    const supported = message.encoding === 'json' ||
+      (version !== null && SUPPORTED_BINARY_VERSIONS.includes(version));
+
+    if (!supported || (deltas && !supportsDeltas(message.encoding, version))) {
+      this.send(session.ws, this.errorMessage(
+        'unsupported_encoding',
+        `${message.encoding} v${message.version ?? '?'}${deltas ? ' with deltas' : ''} is not supported`,
+        'negotiate'
+      ));
+      return;
+    }
+
+    session.encoding = message.encoding;
+    session.binaryVersion = version;
+    session.deltas = deltas;
+    session.baseline = null;
+    this.send(session.ws, {
+      type: 'encoding_selected',
+      encoding: session.encoding,
+      version,
+      deltas,
+      timestamp: this.runtime.now()
+    });
+  }
+
+  // Choose the channels, update rate and field resolution this session receives
+  private handleSubscribe(session: HarmonicSession, message: ClientMessageOf<'subscribe'>): void {
+    // Frames change shape, so the next one is sent in full and without waiting
+    session.subscription = resolveSubscription(message, session.subscription);
+    session.baseline = null;
+    session.lastFrameSeq = 0;
+    this.send(session.ws, {
+      type: 'subscribed',
+      ...session.subscription,
+      timestamp: this.runtime.now()
+    });
+  }
+
+  // Apply rate limits and anomaly checks; rejected messages get an explicit error or a kick
+  private admitStream(
+    session: HarmonicSession,
+    message: ClientMessageOf<'harmonic_stream' | 'phi_cascade'>,
+    cost: number
+  ): boolean {
+    // Drop anything still queued from a socket that is already closing
+    if (session.ws.readyState !== WebSocket.OPEN) return false;
+
+    const decision = this.rateLimiter.check(
+      'websocket',
+      session.userId,
+      session.ip,
+      { frequency: message.frequency, amplitude: message.amplitude },
+      cost
+    );
+    if (decision.allowed) return true;
+
+    this.send(session.ws, {
+      ...this.errorMessage(
+        decision.reason === 'frequency_out_of_range' ? 'frequency_out_of_range' : 'rate_limited',
+        decision.reason,
+        message.type
+      ),
+      retryAfterMs: decision.retryAfterMs
+    });
+
+    if (decision.kick) {
+      console.warn(`🚫 Kicking harmonic node ${session.userId}: ${decision.reason}`);
+      session.ws.close(CLOSE_RATE_LIMITED, 'rate_limited');
+    }
+
+    return false;
+  }
+
+  // Retune the source node through f, f·φ and f·φ² over successive ticks, then announce the
+  // cascade. No other nodes are created, so the series never pairs with its own source.
+  private handlePhiCascade(
+    session: HarmonicSession,
+    frequency: number,
+    amplitude: number,
+    phase: number = 0
+  ): void {
+    const series = [frequency, frequency * this.phiConstant, frequency * this.phiConstant ** 2];
+    const affected: Map<string, ResonanceCascade> = new Map();
+    const sourceNode = session.userId;
+
+    console.log(`🌀 Phi cascade from ${sourceNode}: ${series.map(f => f.toFixed(1)).join(' → ')}Hz`);
+
+    series.forEach((stepFrequency, step) => {
+      const timeout = setTimeout(() => {
+        this.cascadeTimeouts.delete(timeout);
+
+        this.processorFor(session).queueHarmonicStream(stepFrequency, amplitude, sourceNode, phase).then(update => {
+          update.harmonicCascades.forEach(cascade => {
+            const existing = affected.get(cascade.sourceNode);
+            if (!existing || cascade.resonanceStrength > existing.resonanceStrength) {
+              affected.set(cascade.sourceNode, cascade);
+            }
+          });
+
+          if (step === series.length - 1) {
+            this.broadcastCascadeEvent(session.roomId, sourceNode, series, amplitude, Array.from(affected.values()));
+          }
+        }).catch(error => {
+          // The room stopped mid-cascade; the rest of the series is not announced
+          console.warn(`Phi cascade from ${sourceNode} cut short:`, error.message);
+        });
+      }, step * this.cascadeTickMs);
+
+      this.cascadeTimeouts.add(timeout);
+    });
+  }
+
+  private broadcastCascadeEvent(
+    roomId: string,
+    sourceNode: string,
+    frequencies: number[],
+    amplitude: number,
+    cascades: ResonanceCascade[]
+  ): void {
+    const event: ServerMessageOf<'cascade_event'> = {
+      type: 'cascade_event',
+      sourceNode,
+      frequencies,
+      amplitude,
+      affectedNodes: cascades.map(cascade => ({
+        nodeId: cascade.sourceNode,
+        strength: cascade.resonanceStrength,
+        frequency: cascade.frequency,
+        position: cascade.position
+      })),
+      timestamp: this.runtime.now()
+    };
+
+    const payload = JSON.stringify(event);
+    this.broadcastToRoom(roomId, 'cascade_event', payload);
+    this.bus.publish({ type: 'room_broadcast', roomId, messageType: 'cascade_event', payload });
+    this.emit('cascade_event', { roomId, ...event });
+  }
+
+  private handleEntanglement(
+    session: HarmonicSession,
+    targetUserId: string,
+    entanglementType: 'harmonic' | 'quantum' = 'harmonic'
+  ): void {
+    const result = this.processorFor(session).createEntanglement(
+      session.userId,
+      targetUserId,
+      entanglementType
+    );
+
+    if (result.success) {
+      console.log(`🔗 Quantum entanglement: ${result.entanglement.node1} ⇄ ${result.entanglement.node2}`);
+      this.emit('entanglement_created', result.entanglement);
+    }
+
+    this.send(session.ws, result.success ? {
+      type: 'entanglement_created',
+      entanglement: result.entanglement,
+      timestamp: this.runtime.now()
+    } : {
+      type: 'entanglement_failed',
+      targetUserId,
+      reason: result.reason,
+      compatibility: result.compatibility,
+      timestamp: this.runtime.now()
+    });
+  }
+
   private async processHarmonicStream(
     session: HarmonicSession, 
-    message: HarmonicMessage
+    message: ClientMessageOf<'harmonic_stream'>
   ): Promise<void> {
     const { frequency, amplitude, phase = 0 } = message;
-    
-    if (!frequency || amplitude === undefined) return;
 
     // Calculate contribution to global harmonic field
     const contribution = await this.calculateHarmonicContribution(
+      session.roomId,
       frequency,
       amplitude,
       phase,
@@ -154,11 +541,12 @@ export class HarmonicResonanceServer extends EventEmitter {
     // Update session's harmonic signature
     this.updateHarmonicSignature(session, frequency, amplitude, phase);
 
-    // Process through harmonic field processor
-    const harmonicUpdate = this.harmonicProcessor.processHarmonicStream(
+    // Applied by the room's next field tick
+    const harmonicUpdate = await this.processorFor(session).queueHarmonicStream(
       frequency,
       amplitude,
-      session.userId
+      session.userId,
+      phase
     );
 
     // Update local resonance
@@ -167,16 +555,18 @@ export class HarmonicResonanceServer extends EventEmitter {
     // Emit harmonic event for other systems
     this.emit('harmonic_stream', {
       userId: session.userId,
+      roomId: session.roomId,
       frequency,
       amplitude,
       phase,
       contribution,
       harmonicUpdate,
-      timestamp: Date.now()
+      timestamp: this.runtime.now()
     });
   }
 
   private async calculateHarmonicContribution(
+    roomId: string,
     frequency: number,
     amplitude: number,
     phase: number,
@@ -189,9 +579,9 @@ export class HarmonicResonanceServer extends EventEmitter {
     // Calculate interference with existing field
     const interference = new Float32Array(64);
     
-    // Process interference with all active sessions
+    // Process interference with active sessions in the same room
     this.harmonicSessions.forEach((otherSession) => {
-      if (otherSession.isActive) {
+      if (otherSession.isActive && otherSession.roomId === roomId) {
         for (let i = 0; i < 64; i++) {
           const constructive = harmonicSignature[i] + otherSession.harmonicSignature[i];
           const destructive = Math.abs(harmonicSignature[i] - otherSession.harmonicSignature[i]);
@@ -257,44 +647,268 @@ export class HarmonicResonanceServer extends EventEmitter {
     return totalEnergy > 0 ? coherentEnergy / totalEnergy : 0;
   }
 
-  private updateGlobalResonance(): void {
+  // Start broadcasting a room's ticks when its first session joins
+  private joinRoom(session: HarmonicSession): RoomChannel {
+    let channel = this.roomChannels.get(session.roomId);
+
+    if (!channel) {
+      const processor = this.rooms.getProcessor(session.roomId)!;
+      const roomId = session.roomId;
+      const created: RoomChannel = {
+        roomId,
+        processor,
+        sessions: new Set(),
+        globalResonance: 0,
+        activeNodes: 0,
+        frameSeq: 0,
+        onTick: (update) => {
+          this.updateGlobalResonance(created);
+          this.broadcastResonanceUpdate(created, update);
+        },
+        // Push Room 64 portal state changes to every node in the room
+        onPortalTransition: (transition) => this.broadcastPortalTransition(roomId, transition)
+      };
+      processor.on('tick', created.onTick);
+      processor.getPortal().on('transition', created.onPortalTransition);
+      this.roomChannels.set(roomId, created);
+      channel = created;
+    }
+
+    channel.sessions.add(session.userId);
+    return channel;
+  }
+
+  // Stop broadcasting a room once its last session leaves
+  private leaveRoom(session: HarmonicSession): void {
+    const channel = this.roomChannels.get(session.roomId);
+    if (!channel) return;
+
+    channel.sessions.delete(session.userId);
+    if (channel.sessions.size === 0) {
+      this.closeChannel(channel);
+    }
+  }
+
+  private closeChannel(channel: RoomChannel): void {
+    channel.processor.off('tick', channel.onTick);
+    channel.processor.getPortal().off('transition', channel.onPortalTransition);
+    this.roomChannels.delete(channel.roomId);
+  }
+
+  private processorFor(session: HarmonicSession): HarmonicFieldProcessor {
+    return this.rooms.getProcessor(session.roomId)!;
+  }
+
+  // Average resonance over the room's sessions on every server instance
+  private updateGlobalResonance(channel: RoomChannel): void {
     let totalResonance = 0;
     let activeCount = 0;
     
-    this.harmonicSessions.forEach(session => {
-      if (session.isActive) {
+    channel.sessions.forEach(userId => {
+      const session = this.harmonicSessions.get(userId);
+      if (session?.isActive) {
         totalResonance += session.localResonance;
         activeCount++;
       }
     });
+
+    this.bus.publish({
+      type: 'resonance_contribution',
+      roomId: channel.roomId,
+      totalResonance,
+      sessions: activeCount
+    });
+
+    const now = this.runtime.now();
+    this.remoteContributions.get(channel.roomId)?.forEach((contribution, origin, contributions) => {
+      if (now - contribution.receivedAt > this.contributionTtl) {
+        contributions.delete(origin);
+        return;
+      }
+      totalResonance += contribution.totalResonance;
+      activeCount += contribution.sessions;
+    });
     
-    this.globalResonance = activeCount > 0 ? totalResonance / activeCount : 0;
+    channel.globalResonance = activeCount > 0 ? totalResonance / activeCount : 0;
+    channel.activeNodes = activeCount;
   }
 
-  private broadcastResonanceUpdate(): void {
-    const stats = this.harmonicProcessor.getFieldStats();
-    const phiHarmonics = this.harmonicProcessor.detectPhiHarmonics();
-    const quantumField = this.harmonicProcessor.generateQuantumFieldSnapshot();
-    
-    const update: ResonanceUpdate = {
-      globalResonance: this.globalResonance,
-      activeNodes: this.harmonicSessions.size,
-      harmonicField: quantumField,
-      phiHarmonics,
-      quantumCoherence: stats.fieldCoherence,
-      timestamp: Date.now()
+  private handleBusMessage(message: FieldBusMessage, origin: string): void {
+    switch (message.type) {
+      case 'resonance_contribution': {
+        let contributions = this.remoteContributions.get(message.roomId);
+        if (!contributions) {
+          contributions = new Map();
+          this.remoteContributions.set(message.roomId, contributions);
+        }
+        contributions.set(origin, {
+          totalResonance: message.totalResonance,
+          sessions: message.sessions,
+          receivedAt: this.runtime.now()
+        });
+        break;
+      }
+
+      case 'room_broadcast':
+        this.broadcastToRoom(message.roomId, message.messageType, message.payload);
+        break;
+    }
+  }
+
+  // Each session gets the channels it subscribed to, at most at its chosen rate. Full frames
+  // go to sessions without deltas, to new or resyncing sessions and every KEYFRAME_INTERVAL
+  // room frames; the rest get what changed since the frame they last applied. Field parts
+  // are read from the tick's update only when subscribed, each payload is encoded once per
+  // tick, and sessions holding the same frame share one delta.
+  private broadcastResonanceUpdate(channel: RoomChannel, update: HarmonicUpdate): void {
+    const { processor } = channel;
+    const seq = ++channel.frameSeq;
+    const { timestamp } = update;
+
+    const fields: Map<number, QuantumFieldPoint[]> = new Map();
+    const views: Map<string, FrameView> = new Map();
+    const deltas: Map<ResonanceFrame, PendingDelta> = new Map();
+
+    // Unsubscribed parts are left empty
+    const viewFor = ({ channels, resolution }: Subscription): FrameView => {
+      const key = `${channels.join(',')}|${resolution}`;
+      let view = views.get(key);
+      if (!view) {
+        const stats = channels.includes('stats');
+        let harmonicField: QuantumFieldPoint[] = [];
+        if (channels.includes('quantumField')) {
+          harmonicField = fields.get(resolution) ?? processor.getQuantumField(resolution);
+          fields.set(resolution, harmonicField);
+        }
+        view = {
+          frame: {
+            seq,
+            globalResonance: stats ? channel.globalResonance : 0,
+            activeNodes: stats ? channel.activeNodes : 0,
+            harmonicField,
+            phiHarmonics: channels.includes('phiHarmonics') ? update.phiHarmonics : [],
+            entanglements: channels.includes('entanglements') ? update.entanglements : [],
+            quantumCoherence: stats ? processor.getFieldStats().fieldCoherence : 0,
+            intervalsCount: stats ? update.intervalsCount : 0,
+            chordsCount: stats ? update.chordsCount : 0,
+            fibonacciChainsCount: stats ? update.fibonacciChainsCount : 0,
+            timestamp
+          },
+          text: null,
+          binary: new Map()
+        };
+        views.set(key, view);
+      }
+      return view;
     };
 
-    const message = JSON.stringify({
-      type: 'resonance_update',
-      ...update
+    channel.sessions.forEach(userId => {
+      const session = this.harmonicSessions.get(userId);
+      if (!session?.isActive || session.ws.readyState !== WebSocket.OPEN) return;
+      if (!wantsResonanceUpdates(session.subscription)) return;
+
+      // Slower subscriptions skip room frames
+      const every = Math.max(1, Math.round(MAX_UPDATE_RATE / session.subscription.maxRate));
+      if (seq - session.lastFrameSeq < every) return;
+      session.lastFrameSeq = seq;
+
+      const view = viewFor(session.subscription);
+      const baseline = session.deltas && seq - session.keyframeSeq < KEYFRAME_INTERVAL
+        ? session.baseline
+        : null;
+
+      if (!baseline) {
+        session.baseline = view.frame;
+        session.keyframeSeq = seq;
+        if (session.encoding === 'binary') {
+          const version = session.binaryVersion!;
+          if (!view.binary.has(version)) {
+            view.binary.set(version, encodeResonanceFrame(view.frame, version));
+          }
+          this.sendResonance(session, 'keyframe', view.binary.get(version)!);
+        } else {
+          view.text ??= JSON.stringify({ type: 'resonance_update', ...view.frame } satisfies ServerMessage);
+          this.sendResonance(session, 'keyframe', view.text);
+        }
+        return;
+      }
+
+      // Sessions share a baseline only if they share a view, since subscribing resets it
+      let pending = deltas.get(baseline);
+      if (!pending) {
+        const delta = diffResonanceFrames(baseline, view.frame);
+        pending = {
+          delta,
+          applied: delta ? applyResonanceDelta(baseline, delta) : baseline,
+          text: null,
+          binary: null
+        };
+        deltas.set(baseline, pending);
+      }
+
+      session.baseline = pending.applied;
+      // Nothing changed enough to be worth a message
+      if (!pending.delta) return;
+
+      if (session.encoding === 'binary') {
+        pending.binary ??= encodeResonanceDelta(pending.delta);
+        this.sendResonance(session, 'delta', pending.binary);
+      } else {
+        pending.text ??= JSON.stringify({ type: 'resonance_delta', ...pending.delta } satisfies ServerMessage);
+        this.sendResonance(session, 'delta', pending.text);
+      }
     });
+  }
 
-    // Broadcast to all active sessions
-    this.harmonicSessions.forEach(session => {
-      if (session.isActive && session.ws.readyState === WebSocket.OPEN) {
+  private send(ws: WebSocket, message: ServerMessage): void {
+    ws.send(JSON.stringify(message));
+    this.metrics.recordWsMessage('outbound', message.type);
+  }
+
+  private errorMessage(code: ErrorCode, reason: string, rejectedType: string): ServerMessageOf<'error'> {
+    return { type: 'error', code, reason, rejectedType, timestamp: this.runtime.now() };
+  }
+
+  private sendResonance(session: HarmonicSession, kind: 'keyframe' | 'delta', payload: string | Uint8Array): void {
+    try {
+      session.ws.send(payload);
+      this.metrics.recordWsMessage('outbound', kind === 'keyframe' ? 'resonance_update' : 'resonance_delta');
+      this.metrics.recordResonanceBytes(
+        kind,
+        typeof payload === 'string' ? Buffer.byteLength(payload) : payload.byteLength
+      );
+    } catch (error: any) {
+      console.error(`Error sending to ${session.userId}:`, error);
+      this.handleDisconnection(session.userId);
+    }
+  }
+
+  private broadcastPortalTransition(roomId: string, transition: PortalTransition): void {
+    this.broadcastToRoom(roomId, 'portal_state', JSON.stringify({
+      type: 'portal_state',
+      state: transition.to,
+      previousState: transition.from,
+      reason: transition.reason,
+      triggeredBy: transition.triggeredBy,
+      timestamp: transition.timestamp
+    } satisfies ServerMessage));
+
+    this.emit('portal_transition', { roomId, ...transition });
+  }
+
+  // Send a serialized message to every active session in a room subscribed to its channel
+  private broadcastToRoom(roomId: string, type: string, message: string): void {
+    const channel = this.roomChannels.get(roomId);
+    if (!channel) return;
+
+    const required = BROADCAST_CHANNELS[type];
+    channel.sessions.forEach(userId => {
+      const session = this.harmonicSessions.get(userId);
+      if (required && !session?.subscription.channels.includes(required)) return;
+      if (session?.isActive && session.ws.readyState === WebSocket.OPEN) {
         try {
           session.ws.send(message);
+          this.metrics.recordWsMessage('outbound', type);
         } catch (error: any) {
           console.error(`Error sending to ${session.userId}:`, error);
           this.handleDisconnection(session.userId);
@@ -304,22 +918,21 @@ export class HarmonicResonanceServer extends EventEmitter {
   }
 
   private checkHeartbeats(): void {
-    const now = Date.now();
+    const now = this.runtime.now();
     const timeout = 30000; // 30 seconds
     
     this.harmonicSessions.forEach((session, userId) => {
       if (now - session.lastHeartbeat > timeout) {
         console.log(`💫 Consciousness node ${userId} timed out`);
-        this.handleDisconnection(userId);
+        this.handleDisconnection(userId, undefined, true);
       }
     });
   }
 
-  private handleDisconnection(userId: string): void {
+  private handleDisconnection(userId: string, ws?: WebSocket, resumable: boolean = false): void {
     const session = this.harmonicSessions.get(userId);
-    if (session) {
-      console.log(`🌊 Consciousness node ${userId} disconnected`);
-      
+    // Ignore late events from a socket that has since been replaced
+    if (session && (!ws || session.ws === ws)) {
       session.isActive = false;
       
       try {
@@ -329,43 +942,112 @@ export class HarmonicResonanceServer extends EventEmitter {
       }
       
       this.harmonicSessions.delete(userId);
-      
-      // Emit disconnection event
-      this.emit('node_disconnected', {
-        userId,
-        timestamp: Date.now(),
-        activeNodes: this.harmonicSessions.size
-      });
+      this.leaveRoom(session);
+
+      if (resumable) {
+        this.suspendSession(session);
+      } else {
+        this.endSession(session);
+      }
+    }
+  }
+
+  // Hold a dropped session so a reconnect with its resume token can pick it up
+  private suspendSession(session: HarmonicSession): void {
+    console.log(`💤 Consciousness node ${session.userId} dropped, resumable for ${RESUME_GRACE_MS / 1000}s`);
+
+    const expiry = setTimeout(() => this.expireSuspendedSession(session), RESUME_GRACE_MS);
+    this.suspendedSessions.set(session.resumeToken, { session, expiry });
+  }
+
+  // A token only resumes a session in the room it asks for, and only for the device that held it
+  private takeSuspendedSession(
+    token: string | null,
+    roomId: string,
+    deviceNodeId: string | null
+  ): HarmonicSession | null {
+    const suspended = token ? this.suspendedSessions.get(token) : undefined;
+    if (!suspended) return null;
+
+    const { session } = suspended;
+    if (session.roomId !== roomId || (deviceNodeId !== null && deviceNodeId !== session.userId)) {
+      return null;
     }
+
+    clearTimeout(suspended.expiry);
+    this.suspendedSessions.delete(session.resumeToken);
+    return session;
+  }
+
+  private expireSuspendedSession(session: HarmonicSession): void {
+    const suspended = this.suspendedSessions.get(session.resumeToken);
+    if (!suspended) return;
+
+    clearTimeout(suspended.expiry);
+    this.suspendedSessions.delete(session.resumeToken);
+    this.endSession(session);
+  }
+
+  private endSession(session: HarmonicSession): void {
+    console.log(`🌊 Consciousness node ${session.userId} disconnected`);
+
+    // Emit disconnection event
+    this.emit('node_disconnected', {
+      userId: session.userId,
+      roomId: session.roomId,
+      timestamp: this.runtime.now(),
+      activeNodes: this.harmonicSessions.size
+    });
+  }
+
+  // Authenticated devices stream as their consciousness ID so tRPC and WebSocket share one node;
+  // null when the connection has no valid device token
+  private resolveDeviceNodeId(request: IncomingMessage): string | null {
+    const token = readHandshakeToken(request);
+    const device = token ? DeviceAuth.getInstance().verify(token) : null;
+
+    return device ? device.consciousnessId : null;
   }
 
   private generateUserId(): string {
-    return `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return `node_${this.runtime.now()}_${this.runtime.next().toString(36).substr(2, 9)}`;
   }
 
   // Public methods for monitoring
-  public getActiveConnections(): number {
-    return this.harmonicSessions.size;
+  public getActiveConnections(roomId?: string): number {
+    if (roomId === undefined) return this.harmonicSessions.size;
+    return this.roomChannels.get(roomId)?.sessions.size ?? 0;
   }
 
-  public getGlobalResonance(): number {
-    return this.globalResonance;
+  public getGlobalResonance(roomId: string = DEFAULT_ROOM_ID): number {
+    return this.roomChannels.get(roomId)?.globalResonance ?? 0;
   }
 
   public getHarmonicSessions(): Map<string, HarmonicSession> {
     return this.harmonicSessions;
   }
 
+  public getSuspendedSessions(): number {
+    return this.suspendedSessions.size;
+  }
+
   public shutdown(): void {
     console.log('🔄 Shutting down Harmonic Resonance Server...');
     
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-    }
-    
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
     }
+
+    this.unsubscribeBus?.();
+    this.unsubscribeBus = null;
+
+    this.roomChannels.forEach(channel => this.closeChannel(channel));
+
+    this.cascadeTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.cascadeTimeouts.clear();
+
+    this.suspendedSessions.forEach(({ expiry }) => clearTimeout(expiry));
+    this.suspendedSessions.clear();
     
     // Close all connections
     this.harmonicSessions.forEach(session => {
@@ -377,7 +1059,27 @@ export class HarmonicResonanceServer extends EventEmitter {
     });
     
     this.harmonicSessions.clear();
+    this.wss.close();
     
     console.log('✨ Harmonic Resonance Server Shutdown Complete');
   }
-}
\ No newline at end of file
+}
+
+// Clients may name the protocol version they speak with ?protocol=<version>
+export function resolveProtocolVersion(request: IncomingMessage): number | null {
+  const { searchParams } = new URL(request.url ?? '/', 'http://localhost');
+  const version = searchParams.get('protocol');
+  return version === null ? null : Number(version);
+}
+
+// Dropped clients present the resume token from connection_established with ?resume=<token>
+export function resolveResumeToken(request: IncomingMessage): string | null {
+  const { searchParams } = new URL(request.url ?? '/', 'http://localhost');
+  return searchParams.get('resume') || null;
+}
+
+// Rooms are joined with ?room=<id>; clients that omit it join the default room
+export function resolveRoomId(request: IncomingMessage): string {
+  const { searchParams } = new URL(request.url ?? '/', 'http://localhost');
+  return searchParams.get('room') || DEFAULT_ROOM_ID;
+}
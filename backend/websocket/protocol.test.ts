@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseBinaryServerMessage,
+  parseClientMessage,
+  parseServerMessage
+} from './protocol';
+import { encodeResonanceDelta, encodeResonanceFrame, ResonanceFrame } from './resonanceCodec';
+
+const frame: ResonanceFrame = {
+  seq: 1,
+  globalResonance: 0.5,
+  activeNodes: 1,
+  harmonicField: [],
+  phiHarmonics: [{ node1: 'node_a', node2: 'node_b', ratio: 1.618, strength: 0.9, type: 'golden_ratio' }],
+  entanglements: [],
+  quantumCoherence: 0.25,
+  intervalsCount: 4,
+  chordsCount: 1,
+  fibonacciChainsCount: 0,
+  timestamp: 1_700_000_000_000
+};
+
+describe('parseClientMessage', () => {
+  it('accepts a valid message', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'harmonic_stream', frequency: 432, amplitude: 0.5 }))).toEqual({
+      success: true,
+      message: { type: 'harmonic_stream', frequency: 432, amplitude: 0.5 }
+    });
+  });
+
+  it('reports text that is not JSON as malformed', () => {
+    expect(parseClientMessage('{')).toMatchObject({ success: false, code: 'malformed_message', rejectedType: 'unknown' });
+  });
+
+  it('reports the failed checks of an invalid message', () => {
+    const parsed = parseClientMessage(JSON.stringify({ type: 'harmonic_stream', frequency: 432, amplitude: 2 }));
+    expect(parsed).toMatchObject({ success: false, code: 'invalid_message', rejectedType: 'harmonic_stream' });
+    expect(!parsed.success && parsed.issues.map(({ path }) => path)).toEqual(['amplitude']);
+  });
+
+  it('rejects unknown message types', () => {
+    expect(parseClientMessage(JSON.stringify({ type: 'teleport' }))).toMatchObject({ success: false, code: 'invalid_message' });
+  });
+});
+
+describe('parseServerMessage', () => {
+  it('accepts a portal state message and rejects an unknown state', () => {
+    const message = { type: 'portal_state', state: 'portal_active', previousState: 'portal_ready', reason: 'sustained_activation', triggeredBy: 'node_a', timestamp: 1 };
+    expect(parseServerMessage(JSON.stringify(message)).success).toBe(true);
+    expect(parseServerMessage(JSON.stringify({ ...message, state: 'open' })).success).toBe(false);
+  });
+});
+
+describe('parseBinaryServerMessage', () => {
+  it('accepts keyframes and deltas', () => {
+    expect(parseBinaryServerMessage(encodeResonanceFrame(frame))).toEqual({
+      success: true,
+      message: { type: 'resonance_update', ...frame }
+    });
+    expect(parseBinaryServerMessage(encodeResonanceDelta({ seq: 2, baseSeq: 1, timestamp: 2, phiHarmonicsRemoved: ['node_a::node_b'] }))).toMatchObject({
+      success: true,
+      message: { type: 'resonance_delta', seq: 2, baseSeq: 1, phiHarmonicsRemoved: ['node_a::node_b'] }
+    });
+  });
+
+  it('rejects a frame whose trailer does not match the schema', () => {
+    const tampered = { ...frame, phiHarmonics: [{ node1: 'node_a', ratio: 'wide' }] } as unknown as ResonanceFrame;
+    const parsed = parseBinaryServerMessage(encodeResonanceFrame(tampered));
+    expect(parsed).toMatchObject({ success: false, code: 'invalid_message', rejectedType: 'resonance_update' });
+
+    const delta = encodeResonanceDelta({ seq: 2, baseSeq: 1, timestamp: 2, entanglementsAdded: [{ id: 'ent_1' }] } as never);
+    expect(parseBinaryServerMessage(delta)).toMatchObject({ success: false, code: 'invalid_message', rejectedType: 'resonance_delta' });
+  });
+
+  it('reports frames that do not decode as malformed', () => {
+    expect(parseBinaryServerMessage(new Uint8Array(4))).toMatchObject({ success: false, code: 'malformed_message' });
+
+    const bytes = encodeResonanceFrame(frame);
+    // Replace the trailer's opening brace, so it no longer parses as JSON
+    const { phiHarmonics, entanglements, intervalsCount, chordsCount, fibonacciChainsCount } = frame;
+    const trailer = JSON.stringify({ phiHarmonics, entanglements, intervalsCount, chordsCount, fibonacciChainsCount });
+    expect(bytes[bytes.length - trailer.length]).toBe(0x7b);
+    bytes[bytes.length - trailer.length] = 0x5b;
+    expect(parseBinaryServerMessage(bytes)).toMatchObject({ success: false, code: 'malformed_message' });
+  });
+});
@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import type {
+  PhiHarmonic,
+  QuantumEntanglement,
+  QuantumFieldPoint
+} from '../services/HarmonicFieldProcessor';
+import type { PortalState, PortalTransitionReason } from '../services/Room64Portal';
+import { decodeResonanceMessage, ResonanceDelta, ResonanceFrame } from './resonanceCodec';
+import { MAX_FIELD_RESOLUTION, SUBSCRIPTION_CHANNELS } from './subscriptions';
+
+// The harmonic WebSocket message contract. The server validates every client message against
+// ClientMessageSchema and useHarmonicWebSocket validates every server message, JSON or
+// binary, against ServerMessageSchema.
+// Shared with the client, so keep it free of Node and React Native APIs.
+//
+// Clients announce the version they speak with ?protocol=<version>; the server closes
+// sockets asking for one it does not speak with 4426. Bump the version for changes
+// an older client or server cannot ignore.
+export const HARMONIC_PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [HARMONIC_PROTOCOL_VERSION];
+
+// Field data, checked against the processor's types so the two cannot drift
+const PositionSchema = z.object({ x: z.number(), y: z.number() });
+
+export const QuantumFieldPointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  intensity: z.number(),
+  quantumState: z.object({ psi_collapse: z.number(), psi_bloom: z.number() }),
+  resonance: z.number()
+}) satisfies z.ZodType<QuantumFieldPoint>;
+
+export const PhiHarmonicSchema = z.object({
+  node1: z.string(),
+  node2: z.string(),
+  ratio: z.number(),
+  strength: z.number(),
+  type: z.enum(['golden_ratio', 'golden_square'])
+}) satisfies z.ZodType<PhiHarmonic>;
+
+export const QuantumEntanglementSchema = z.object({
+  id: z.string(),
+  node1: z.string(),
+  node2: z.string(),
+  entanglementType: z.enum(['harmonic', 'quantum']),
+  compatibility: z.number(),
+  bellState: z.object({
+    alpha: z.number(),
+    beta: z.number(),
+    coherence: z.number(),
+    entanglementStrength: z.number(),
+    type: z.enum(['phi_plus', 'phi_minus', 'psi_plus', 'psi_minus'])
+  }),
+  createdAt: z.number(),
+  lastUpdate: z.number()
+}) satisfies z.ZodType<QuantumEntanglement>;
+
+export const PortalStateSchema = z.enum([
+  'standby', 'portal_ready', 'portal_active', 'spiral_stable', 'void_transitions'
+]) satisfies z.ZodType<PortalState>;
+
+const PortalTransitionReasonSchema = z.enum([
+  'activation_conditions_met',
+  'sustained_activation',
+  'coherent_field_geometry',
+  'geometry_lost',
+  'resonance_cascade',
+  'cascade_subsided',
+  'activation_timeout'
+]) satisfies z.ZodType<PortalTransitionReason>;
+
+const WireEncodingSchema = z.enum(['json', 'binary']);
+const SubscriptionChannelSchema = z.enum(SUBSCRIPTION_CHANNELS);
+const timestamp = z.number().optional();
+
+// Client → server
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('harmonic_stream'),
+    frequency: z.number(), // Range is checked by the rate limiter, which reports it separately
+    amplitude: z.number().min(0).max(1),
+    phase: z.number().optional(),
+    timestamp
+  }),
+  z.object({
+    type: z.literal('phi_cascade'),
+    frequency: z.number(),
+    amplitude: z.number().min(0).max(1),
+    phase: z.number().optional(),
+    timestamp
+  }),
+  z.object({
+    type: z.literal('heartbeat'),
+    timestamp
+  }),
+  z.object({
+    type: z.literal('entangle'),
+    targetUserId: z.string().min(1),
+    entanglementType: z.enum(['harmonic', 'quantum']).optional(),
+    timestamp
+  }),
+  z.object({
+    type: z.literal('negotiate'),
+    encoding: WireEncodingSchema,
+    version: z.number().int().optional(), // Binary frame version
+    deltas: z.boolean().optional(),
+    timestamp
+  }),
+  z.object({
+    type: z.literal('resync'),
+    timestamp
+  }),
+  z.object({
+    type: z.literal('subscribe'),
+    channels: z.array(SubscriptionChannelSchema).optional(),
+    maxRate: z.number().positive().optional(),
+    resolution: z.number().int().min(1).max(MAX_FIELD_RESOLUTION).optional(),
+    timestamp
+  }),
+  z.object({
+    type: z.literal('disconnect'),
+    timestamp
+  })
+]);
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export type ClientMessageOf<T extends ClientMessage['type']> = Extract<ClientMessage, { type: T }>;
+
+export const ErrorCodeSchema = z.enum([
+  'malformed_message', // Not JSON
+  'invalid_message', // JSON that does not match ClientMessageSchema
+  'unsupported_protocol',
+  'unsupported_encoding',
+  'rate_limited',
+  'frequency_out_of_range'
+]);
+
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+
+const ResonanceFrameSchema = z.object({
+  seq: z.number(),
+  globalResonance: z.number(),
+  activeNodes: z.number(),
+  harmonicField: z.array(QuantumFieldPointSchema),
+  phiHarmonics: z.array(PhiHarmonicSchema),
+  entanglements: z.array(QuantumEntanglementSchema),
+  quantumCoherence: z.number(),
+  intervalsCount: z.number(),
+  chordsCount: z.number(),
+  fibonacciChainsCount: z.number(),
+  timestamp: z.number()
+}) satisfies z.ZodType<ResonanceFrame>;
+
+const ResonanceDeltaSchema = z.object({
+  seq: z.number(),
+  baseSeq: z.number(),
+  timestamp: z.number(),
+  globalResonance: z.number().optional(),
+  activeNodes: z.number().optional(),
+  quantumCoherence: z.number().optional(),
+  intervalsCount: z.number().optional(),
+  chordsCount: z.number().optional(),
+  fibonacciChainsCount: z.number().optional(),
+  fieldLength: z.number().optional(),
+  fieldPoints: z.array(z.object({ index: z.number(), point: QuantumFieldPointSchema })).optional(),
+  phiHarmonicsAdded: z.array(PhiHarmonicSchema).optional(),
+  phiHarmonicsRemoved: z.array(z.string()).optional(),
+  entanglementsAdded: z.array(QuantumEntanglementSchema).optional(),
+  entanglementsRemoved: z.array(z.string()).optional()
+}) satisfies z.ZodType<ResonanceDelta>;
+
+// Server → client
+export const ServerMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('connection_established'),
+    userId: z.string(),
+    roomId: z.string(),
+    globalResonance: z.number(),
+    activeNodes: z.number(),
+    portalState: PortalStateSchema,
+    resumeToken: z.string(), // Presented as ?resume=<token> after a dropped connection
+    resumed: z.boolean(),
+    // Options for negotiate and subscribe
+    protocol: z.object({
+      version: z.number(),
+      encoding: WireEncodingSchema,
+      encodings: z.array(WireEncodingSchema),
+      binaryVersions: z.array(z.number()),
+      deltas: z.boolean(),
+      subscriptions: z.object({
+        channels: z.array(SubscriptionChannelSchema),
+        maxRate: z.number(),
+        maxResolution: z.number()
+      })
+    }),
+    timestamp: z.number()
+  }),
+  z.object({
+    type: z.literal('heartbeat_ack'),
+    timestamp: z.number()
+  }),
+  z.object({
+    type: z.literal('encoding_selected'),
+    encoding: WireEncodingSchema,
+    version: z.number().nullable(),
+    deltas: z.boolean(),
+    timestamp: z.number()
+  }),
+  z.object({
+    type: z.literal('subscribed'),
+    channels: z.array(SubscriptionChannelSchema),
+    maxRate: z.number(),
+    resolution: z.number(),
+    timestamp: z.number()
+  }),
+  ResonanceFrameSchema.extend({ type: z.literal('resonance_update') }),
+  ResonanceDeltaSchema.extend({ type: z.literal('resonance_delta') }),
+  z.object({
+    type: z.literal('entanglement_created'),
+    entanglement: QuantumEntanglementSchema,
+    timestamp: z.number()
+  }),
+  z.object({
+    type: z.literal('entanglement_failed'),
+    targetUserId: z.string(),
+    reason: z.enum(['node_not_found', 'self_entanglement', 'incompatible']),
+    compatibility: z.number(),
+    timestamp: z.number()
+  }),
+  z.object({
+    type: z.literal('cascade_event'),
+    sourceNode: z.string(),
+    frequencies: z.array(z.number()),
+    amplitude: z.number(),
+    affectedNodes: z.array(z.object({
+      nodeId: z.string(),
+      strength: z.number(),
+      frequency: z.number(),
+      position: PositionSchema
+    })),
+    timestamp: z.number()
+  }),
+  z.object({
+    type: z.literal('portal_state'),
+    state: PortalStateSchema,
+    previousState: PortalStateSchema,
+    reason: PortalTransitionReasonSchema,
+    triggeredBy: z.string().nullable(),
+    timestamp: z.number()
+  }),
+  z.object({
+    type: z.literal('error'),
+    code: ErrorCodeSchema,
+    reason: z.string(),
+    rejectedType: z.string(), // Type of the rejected message, 'unknown' if unreadable, 'handshake' for the URL
+    retryAfterMs: z.number().optional(),
+    // Failed checks of an invalid_message
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+    timestamp: z.number()
+  })
+]);
+
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+export type ServerMessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+export type { PhiHarmonic, PortalState, QuantumEntanglement, QuantumFieldPoint };
+
+export type ParseResult<T> =
+  | { success: true; message: T }
+  | { success: false; code: 'malformed_message' | 'invalid_message'; reason: string; rejectedType: string; issues: { path: string; message: string }[] };
+
+export function parseClientMessage(text: string): ParseResult<ClientMessage> {
+  return parseMessage(ClientMessageSchema, text);
+}
+
+export function parseServerMessage(text: string): ParseResult<ServerMessage> {
+  return parseMessage(ServerMessageSchema, text);
+}
+
+// A binary resonance frame, decoded and then checked like a JSON message
+export function parseBinaryServerMessage(data: ArrayBuffer | Uint8Array): ParseResult<ServerMessage> {
+  let raw: unknown;
+  try {
+    raw = decodeResonanceMessage(data);
+  } catch (error: any) {
+    return { success: false, code: 'malformed_message', reason: error.message, rejectedType: 'unknown', issues: [] };
+  }
+  return validateMessage(ServerMessageSchema, raw);
+}
+
+function parseMessage<T>(schema: z.ZodType<T>, text: string): ParseResult<T> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error: any) {
+    return { success: false, code: 'malformed_message', reason: error.message, rejectedType: 'unknown', issues: [] };
+  }
+  return validateMessage(schema, raw);
+}
+
+function validateMessage<T>(schema: z.ZodType<T>, raw: unknown): ParseResult<T> {
+  const result = schema.safeParse(raw);
+  if (result.success) {
+    return { success: true, message: result.data };
+  }
+
+  const rawType = (raw as { type?: unknown } | null)?.type;
+  const issues = result.error.issues.map(issue => ({
+    path: issue.path.map(String).join('.') || '(message)',
+    message: issue.message
+  }));
+  return {
+    success: false,
+    code: 'invalid_message',
+    reason: issues.map(issue => `${issue.path}: ${issue.message}`).join('; '),
+    rejectedType: typeof rawType === 'string' ? rawType : 'unknown',
+    issues
+  };
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import type { QuantumEntanglement, QuantumFieldPoint } from '../services/HarmonicFieldProcessor';
+import { parseBinaryServerMessage, ServerMessage } from './protocol';
+import {
+  applyResonanceDelta,
+  decodeResonanceMessage,
+  diffResonanceFrames,
+  encodeResonanceDelta,
+  encodeResonanceFrame,
+  ResonanceFrame,
+  supportsDeltas
+} from './resonanceCodec';
+
+// Values that survive the f32 round trip exactly
+function point(i: number, intensity: number = 0.5): QuantumFieldPoint {
+  return {
+    x: i * 2,
+    y: -i,
+    intensity,
+    quantumState: { psi_collapse: 0.25, psi_bloom: 0.75 },
+    resonance: 0.125
+  };
+}
+
+function entanglement(id: string, alpha: number, lastUpdate: number): QuantumEntanglement {
+  return {
+    id,
+    node1: 'node_a',
+    node2: 'node_b',
+    entanglementType: 'harmonic',
+    compatibility: 0.8,
+    bellState: { alpha, beta: 1, coherence: 0.9, entanglementStrength: 0.6, type: 'phi_plus' },
+    createdAt: 1_700_000_000_000,
+    lastUpdate
+  };
+}
+
+const keyframe: ResonanceFrame = {
+  seq: 7,
+  globalResonance: 0.5,
+  activeNodes: 3,
+  harmonicField: [point(0), point(1), point(2)],
+  phiHarmonics: [{ node1: 'node_a', node2: 'node_b', ratio: 1.618, strength: 0.9, type: 'golden_ratio' }],
+  entanglements: [entanglement('ent_1', 0.5, 1_700_000_000_000), entanglement('ent_2', 2, 1_700_000_000_000)],
+  quantumCoherence: 0.25,
+  intervalsCount: 4,
+  chordsCount: 1,
+  fibonacciChainsCount: 0,
+  timestamp: 1_700_000_000_000
+};
+
+// What the client applies: the frame decoded and validated
+function receive(bytes: Uint8Array): ServerMessage {
+  const parsed = parseBinaryServerMessage(bytes);
+  if (!parsed.success) throw new Error(parsed.reason);
+  return parsed.message;
+}
+
+describe('resonanceCodec', () => {
+  it('round-trips a keyframe', () => {
+    expect(decodeResonanceMessage(encodeResonanceFrame(keyframe))).toEqual({ type: 'resonance_update', ...keyframe });
+  });
+
+  it('decodes version 1 keyframes as unsequenced', () => {
+    expect(decodeResonanceMessage(encodeResonanceFrame(keyframe, 1))).toEqual({ type: 'resonance_update', ...keyframe, seq: 0 });
+  });
+
+  it('decodes from an ArrayBuffer as received by a browser socket', () => {
+    const bytes = encodeResonanceFrame(keyframe);
+    const buffer = new ArrayBuffer(bytes.length);
+    new Uint8Array(buffer).set(bytes);
+    expect(decodeResonanceMessage(buffer)).toEqual({ type: 'resonance_update', ...keyframe });
+  });
+
+  it('keeps field values to f32 precision in a fraction of the JSON size', () => {
+    const harmonicField = Array.from({ length: 50 }, (_, i) => ({
+      x: Math.cos(i) * 40,
+      y: Math.sin(i) * 40,
+      intensity: i / 49,
+      quantumState: { psi_collapse: Math.sqrt(i) / 10, psi_bloom: 1 / (i + 3) },
+      resonance: Math.PI / (i + 1)
+    }));
+    const frame = { ...keyframe, harmonicField };
+    const bytes = encodeResonanceFrame(frame);
+    expect(bytes.length).toBeLessThan(JSON.stringify({ type: 'resonance_update', ...frame }).length / 3);
+
+    const decoded = receive(bytes);
+    if (decoded.type !== 'resonance_update') throw new Error('Expected a keyframe');
+    decoded.harmonicField.forEach((point, i) => {
+      expect(point.x).toBeCloseTo(harmonicField[i].x, 4);
+      expect(point.quantumState.psi_bloom).toBeCloseTo(harmonicField[i].quantumState.psi_bloom, 6);
+      expect(point.resonance).toBeCloseTo(harmonicField[i].resonance, 6);
+    });
+  });
+
+  it('only sends deltas over JSON or binary version 2', () => {
+    expect(supportsDeltas('json', null)).toBe(true);
+    expect(supportsDeltas('binary', 2)).toBe(true);
+    expect(supportsDeltas('binary', 1)).toBe(false);
+    expect(supportsDeltas('binary', null)).toBe(false);
+  });
+
+  it('round-trips a delta that shrinks the field', () => {
+    const next = { ...keyframe, seq: 8, harmonicField: keyframe.harmonicField.slice(0, 1), timestamp: 1_700_000_000_100 };
+    const delta = diffResonanceFrames(keyframe, next)!;
+    expect(delta).toEqual({ seq: 8, baseSeq: 7, timestamp: 1_700_000_000_100, fieldLength: 1 });
+
+    const decoded = decodeResonanceMessage(encodeResonanceDelta(delta));
+    expect(decoded).toEqual({ type: 'resonance_delta', ...delta });
+    expect(applyResonanceDelta(keyframe, delta)).toEqual(next);
+  });
+
+  it('round-trips a delta that rebuilds the next frame from the keyframe', () => {
+    const next: ResonanceFrame = {
+      ...keyframe,
+      seq: 8,
+      globalResonance: 0.75,
+      chordsCount: 2,
+      harmonicField: [point(0), point(1, 1), point(2), point(3)],
+      phiHarmonics: [],
+      entanglements: [entanglement('ent_1', 0.5, 1_700_000_000_100), entanglement('ent_3', 1.5, 1_700_000_000_100)],
+      timestamp: 1_700_000_000_100
+    };
+
+    const delta = diffResonanceFrames(keyframe, next)!;
+    expect(delta).toMatchObject({ chordsCount: 2 });
+    expect(delta).not.toHaveProperty('intervalsCount');
+    expect(delta.fieldPoints!.map(({ index }) => index)).toEqual([1, 3]);
+    expect(delta.phiHarmonicsRemoved).toEqual(['node_a::node_b']);
+    expect(delta.entanglementsAdded!.map(({ id }) => id)).toEqual(['ent_3']);
+    expect(delta.entanglementsRemoved).toEqual(['ent_2']);
+
+    const decoded = decodeResonanceMessage(encodeResonanceDelta(delta));
+    expect(decoded).toEqual({ type: 'resonance_delta', ...delta });
+
+    const received = receive(encodeResonanceFrame(keyframe));
+    const receivedDelta = receive(encodeResonanceDelta(delta));
+    if (received.type !== 'resonance_update' || receivedDelta.type !== 'resonance_delta') {
+      throw new Error('Expected a keyframe and a delta');
+    }
+    const { type: _frameType, ...base } = received;
+    const { type: _deltaType, ...changes } = receivedDelta;
+    const client = applyResonanceDelta(base, changes);
+    expect(client).toEqual({ ...next, entanglements: [entanglement('ent_1', 0.5, 1_700_000_000_000), next.entanglements[1]] });
+  });
+
+  it('leaves out entanglements whose Bell state did not change', () => {
+    const next = {
+      ...keyframe,
+      seq: 8,
+      entanglements: keyframe.entanglements.map(({ id, bellState }) => entanglement(id, bellState.alpha, 1_700_000_000_100))
+    };
+    expect(diffResonanceFrames(keyframe, next)).toBeNull();
+
+    const moved = { ...next, entanglements: [entanglement('ent_1', 0.6, 1_700_000_000_100), next.entanglements[1]] };
+    expect(diffResonanceFrames(keyframe, moved)!.entanglementsAdded!.map(({ id }) => id)).toEqual(['ent_1']);
+  });
+
+  it('rejects truncated and unknown frames', () => {
+    const bytes = encodeResonanceFrame(keyframe);
+    expect(() => decodeResonanceMessage(bytes.subarray(0, bytes.length - 5))).toThrow();
+    expect(() => decodeResonanceMessage(new Uint8Array(8))).toThrow('Truncated');
+    const unknown = bytes.slice();
+    unknown[0] = 9;
+    expect(() => decodeResonanceMessage(unknown)).toThrow('Unknown resonance frame type');
+  });
+});
@@ -0,0 +1,425 @@
+import type { QuantumFieldPoint, PhiHarmonic, QuantumEntanglement } from '../services/HarmonicFieldProcessor';
+
+// Resonance update encodings, negotiated per socket after connection_established.
+// Full frames (keyframes) carry the whole field; deltas carry what changed since the
+// frame the client last applied. Binary layouts, little-endian:
+//   keyframe  u8 type 1, u8 version, u16 point count, u32 active nodes, f64 timestamp,
+//             f32 global resonance, f32 quantum coherence, u32 trailer length,
+//             u32 seq (version 2 only), then f32 x 6 per field point
+//             (x, y, intensity, psi_collapse, psi_bloom, resonance),
+//             then a UTF-8 JSON trailer { phiHarmonics, entanglements, intervalsCount,
+//             chordsCount, fibonacciChainsCount }
+//   delta     u8 type 2, u8 version, u16 changed point count, u32 seq, u32 base seq,
+//             u32 trailer length, then per changed point u16 index, u16 padding and
+//             f32 x 6, then a UTF-8 JSON trailer with the remaining delta fields
+// Version 1 has keyframes only. Decoded messages are unchecked; parseBinaryServerMessage in
+// protocol validates them like JSON messages. Shared by the WebSocket server and
+// useHarmonicWebSocket, so keep it free of Node and React Native APIs.
+export const RESONANCE_BINARY_VERSION = 2;
+export const SUPPORTED_BINARY_VERSIONS: readonly number[] = [1, RESONANCE_BINARY_VERSION];
+
+// Changes smaller than this are not worth sending
+const DELTA_EPSILON = 1e-4;
+
+const FRAME_KEYFRAME = 1;
+const FRAME_DELTA = 2;
+const KEYFRAME_HEADER_BYTES = 28;
+const DELTA_HEADER_BYTES = 16;
+const FLOATS_PER_POINT = 6;
+const POINT_BYTES = FLOATS_PER_POINT * 4;
+
+// Whether a negotiated encoding can carry deltas
+export function supportsDeltas(encoding: WireEncoding, version: number | null): boolean {
+  return encoding === 'json' || (version !== null && version >= 2);
+}
+
+// What changed between two frames, or null when nothing worth sending did
+export function diffResonanceFrames(base: ResonanceFrame, next: ResonanceFrame): ResonanceDelta | null {
+  const delta: ResonanceDelta = { seq: next.seq, baseSeq: base.seq, timestamp: next.timestamp };
+  let changed = false;
+
+  if (differs(base.globalResonance, next.globalResonance)) {
+    delta.globalResonance = next.globalResonance;
+    changed = true;
+  }
+  if (base.activeNodes !== next.activeNodes) {
+    delta.activeNodes = next.activeNodes;
+    changed = true;
+  }
+  if (differs(base.quantumCoherence, next.quantumCoherence)) {
+    delta.quantumCoherence = next.quantumCoherence;
+    changed = true;
+  }
+  if (base.intervalsCount !== next.intervalsCount) {
+    delta.intervalsCount = next.intervalsCount;
+    changed = true;
+  }
+  if (base.chordsCount !== next.chordsCount) {
+    delta.chordsCount = next.chordsCount;
+    changed = true;
+  }
+  if (base.fibonacciChainsCount !== next.fibonacciChainsCount) {
+    delta.fibonacciChainsCount = next.fibonacciChainsCount;
+    changed = true;
+  }
+
+  if (base.harmonicField.length !== next.harmonicField.length) {
+    delta.fieldLength = next.harmonicField.length;
+    changed = true;
+  }
+  const fieldPoints = next.harmonicField
+    .map((point, index) => ({ index, point }))
+    .filter(({ index, point }) => index >= base.harmonicField.length || pointDiffers(base.harmonicField[index], point));
+  if (fieldPoints.length > 0) {
+    delta.fieldPoints = fieldPoints;
+    changed = true;
+  }
+
+  const phi = diffKeyed(base.phiHarmonics, next.phiHarmonics, phiHarmonicKey, (a, b) =>
+    a.type !== b.type || differs(a.ratio, b.ratio) || differs(a.strength, b.strength)
+  );
+  if (phi.added.length > 0) delta.phiHarmonicsAdded = phi.added;
+  if (phi.removed.length > 0) delta.phiHarmonicsRemoved = phi.removed;
+
+  // lastUpdate moves on every tick, so only the Bell state counts as a change
+  const entanglements = diffKeyed(base.entanglements, next.entanglements, entanglement => entanglement.id, (a, b) =>
+    a.bellState.type !== b.bellState.type ||
+    differs(a.bellState.alpha, b.bellState.alpha) ||
+    differs(a.bellState.beta, b.bellState.beta) ||
+    differs(a.bellState.coherence, b.bellState.coherence) ||
+    differs(a.bellState.entanglementStrength, b.bellState.entanglementStrength)
+  );
+  if (entanglements.added.length > 0) delta.entanglementsAdded = entanglements.added;
+  if (entanglements.removed.length > 0) delta.entanglementsRemoved = entanglements.removed;
+
+  changed = changed || phi.added.length + phi.removed.length + entanglements.added.length + entanglements.removed.length > 0;
+  return changed ? delta : null;
+}
+
+// The frame a client holds after applying a delta to its base frame
+export function applyResonanceDelta(base: ResonanceFrame, delta: ResonanceDelta): ResonanceFrame {
+  const harmonicField = base.harmonicField.slice(0, delta.fieldLength ?? base.harmonicField.length);
+  delta.fieldPoints?.forEach(({ index, point }) => {
+    harmonicField[index] = point;
+  });
+
+  return {
+    seq: delta.seq,
+    globalResonance: delta.globalResonance ?? base.globalResonance,
+    activeNodes: delta.activeNodes ?? base.activeNodes,
+    harmonicField,
+    phiHarmonics: applyKeyed(base.phiHarmonics, phiHarmonicKey, delta.phiHarmonicsAdded, delta.phiHarmonicsRemoved),
+    entanglements: applyKeyed(
+      base.entanglements,
+      entanglement => entanglement.id,
+      delta.entanglementsAdded,
+      delta.entanglementsRemoved
+    ),
+    quantumCoherence: delta.quantumCoherence ?? base.quantumCoherence,
+    intervalsCount: delta.intervalsCount ?? base.intervalsCount,
+    chordsCount: delta.chordsCount ?? base.chordsCount,
+    fibonacciChainsCount: delta.fibonacciChainsCount ?? base.fibonacciChainsCount,
+    timestamp: delta.timestamp
+  };
+}
+
+export function encodeResonanceFrame(frame: ResonanceFrame, version: number = RESONANCE_BINARY_VERSION): Uint8Array {
+  const trailer = encodeUtf8(JSON.stringify({
+    phiHarmonics: frame.phiHarmonics,
+    entanglements: frame.entanglements,
+    intervalsCount: frame.intervalsCount,
+    chordsCount: frame.chordsCount,
+    fibonacciChainsCount: frame.fibonacciChainsCount
+  }));
+  const headerBytes = version >= 2 ? KEYFRAME_HEADER_BYTES + 4 : KEYFRAME_HEADER_BYTES;
+  const bytes = new Uint8Array(headerBytes + frame.harmonicField.length * POINT_BYTES + trailer.length);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint8(0, FRAME_KEYFRAME);
+  view.setUint8(1, version);
+  view.setUint16(2, frame.harmonicField.length, true);
+  view.setUint32(4, frame.activeNodes, true);
+  view.setFloat64(8, frame.timestamp, true);
+  view.setFloat32(16, frame.globalResonance, true);
+  view.setFloat32(20, frame.quantumCoherence, true);
+  view.setUint32(24, trailer.length, true);
+  if (version >= 2) {
+    view.setUint32(28, frame.seq, true);
+  }
+
+  let offset = headerBytes;
+  frame.harmonicField.forEach(point => {
+    writePoint(view, offset, point);
+    offset += POINT_BYTES;
+  });
+
+  bytes.set(trailer, offset);
+  return bytes;
+}
+
+// Deltas only exist from binary version 2
+export function encodeResonanceDelta(delta: ResonanceDelta): Uint8Array {
+  const { seq, baseSeq, fieldPoints = [], ...rest } = delta;
+  const trailer = encodeUtf8(JSON.stringify(rest));
+  const bytes = new Uint8Array(DELTA_HEADER_BYTES + fieldPoints.length * (POINT_BYTES + 4) + trailer.length);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint8(0, FRAME_DELTA);
+  view.setUint8(1, RESONANCE_BINARY_VERSION);
+  view.setUint16(2, fieldPoints.length, true);
+  view.setUint32(4, seq, true);
+  view.setUint32(8, baseSeq, true);
+  view.setUint32(12, trailer.length, true);
+
+  let offset = DELTA_HEADER_BYTES;
+  fieldPoints.forEach(({ index, point }) => {
+    view.setUint16(offset, index, true);
+    writePoint(view, offset + 4, point);
+    offset += POINT_BYTES + 4;
+  });
+
+  bytes.set(trailer, offset);
+  return bytes;
+}
+
+// Decode a binary frame into the message the JSON encoding would have sent, before validation;
+// throws on unknown or truncated frames
+export function decodeResonanceMessage(data: ArrayBuffer | Uint8Array): DecodedResonanceMessage {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.byteLength < DELTA_HEADER_BYTES) {
+    throw new Error('Truncated resonance frame');
+  }
+  const version = view.getUint8(1);
+  if (!SUPPORTED_BINARY_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported resonance frame version: ${version}`);
+  }
+
+  switch (view.getUint8(0)) {
+    case FRAME_KEYFRAME:
+      return { type: 'resonance_update', ...decodeKeyframe(bytes, view, version) };
+    case FRAME_DELTA:
+      return { type: 'resonance_delta', ...decodeDelta(bytes, view) };
+    default:
+      throw new Error(`Unknown resonance frame type: ${view.getUint8(0)}`);
+  }
+}
+
+function decodeKeyframe(bytes: Uint8Array, view: DataView, version: number): Unchecked<ResonanceFrame> {
+  const headerBytes = version >= 2 ? KEYFRAME_HEADER_BYTES + 4 : KEYFRAME_HEADER_BYTES;
+  const pointCount = view.getUint16(2, true);
+  const trailerOffset = headerBytes + pointCount * POINT_BYTES;
+  const trailer = trailerFields(readTrailer(bytes, trailerOffset, view.getUint32(24, true)));
+
+  const harmonicField: QuantumFieldPoint[] = [];
+  for (let i = 0; i < pointCount; i++) {
+    harmonicField.push(readPoint(view, headerBytes + i * POINT_BYTES));
+  }
+
+  return {
+    // Version 1 frames are unsequenced
+    seq: version >= 2 ? view.getUint32(28, true) : 0,
+    globalResonance: view.getFloat32(16, true),
+    activeNodes: view.getUint32(4, true),
+    harmonicField,
+    phiHarmonics: trailer.phiHarmonics ?? [],
+    entanglements: trailer.entanglements ?? [],
+    quantumCoherence: view.getFloat32(20, true),
+    intervalsCount: trailer.intervalsCount ?? 0,
+    chordsCount: trailer.chordsCount ?? 0,
+    fibonacciChainsCount: trailer.fibonacciChainsCount ?? 0,
+    timestamp: view.getFloat64(8, true)
+  };
+}
+
+function decodeDelta(bytes: Uint8Array, view: DataView): Unchecked<ResonanceDelta> {
+  const pointCount = view.getUint16(2, true);
+  const trailerOffset = DELTA_HEADER_BYTES + pointCount * (POINT_BYTES + 4);
+  const trailer = trailerFields(readTrailer(bytes, trailerOffset, view.getUint32(12, true)));
+
+  const delta: Unchecked<ResonanceDelta> = {
+    ...trailer,
+    seq: view.getUint32(4, true),
+    baseSeq: view.getUint32(8, true)
+  };
+
+  if (pointCount > 0) {
+    const fieldPoints: ResonanceDelta['fieldPoints'] = [];
+    for (let i = 0; i < pointCount; i++) {
+      const offset = DELTA_HEADER_BYTES + i * (POINT_BYTES + 4);
+      fieldPoints.push({ index: view.getUint16(offset, true), point: readPoint(view, offset + 4) });
+    }
+    delta.fieldPoints = fieldPoints;
+  }
+
+  return delta;
+}
+
+function readTrailer(bytes: Uint8Array, offset: number, length: number): unknown {
+  if (offset + length > bytes.byteLength) {
+    throw new Error('Truncated resonance frame');
+  }
+  return JSON.parse(decodeUtf8(bytes.subarray(offset, offset + length)));
+}
+
+// The trailer's fields, still unchecked
+function trailerFields(trailer: unknown): Record<string, unknown> {
+  if (typeof trailer !== 'object' || trailer === null || Array.isArray(trailer)) {
+    throw new Error('Resonance frame trailer is not an object');
+  }
+  return trailer as Record<string, unknown>;
+}
+
+function writePoint(view: DataView, offset: number, point: QuantumFieldPoint): void {
+  [
+    point.x,
+    point.y,
+    point.intensity,
+    point.quantumState.psi_collapse,
+    point.quantumState.psi_bloom,
+    point.resonance
+  ].forEach((value, i) => view.setFloat32(offset + i * 4, value, true));
+}
+
+function readPoint(view: DataView, offset: number): QuantumFieldPoint {
+  return {
+    x: view.getFloat32(offset, true),
+    y: view.getFloat32(offset + 4, true),
+    intensity: view.getFloat32(offset + 8, true),
+    quantumState: {
+      psi_collapse: view.getFloat32(offset + 12, true),
+      psi_bloom: view.getFloat32(offset + 16, true)
+    },
+    resonance: view.getFloat32(offset + 20, true)
+  };
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > DELTA_EPSILON;
+}
+
+function pointDiffers(a: QuantumFieldPoint, b: QuantumFieldPoint): boolean {
+  return differs(a.x, b.x) || differs(a.y, b.y) || differs(a.intensity, b.intensity) ||
+    differs(a.quantumState.psi_collapse, b.quantumState.psi_collapse) ||
+    differs(a.quantumState.psi_bloom, b.quantumState.psi_bloom) ||
+    differs(a.resonance, b.resonance);
+}
+
+function phiHarmonicKey(harmonic: PhiHarmonic): string {
+  return `${harmonic.node1}::${harmonic.node2}`;
+}
+
+// Items that are new or changed, and keys that disappeared
+function diffKeyed<T>(
+  base: T[],
+  next: T[],
+  key: (item: T) => string,
+  changed: (a: T, b: T) => boolean
+): { added: T[]; removed: string[] } {
+  const previous = new Map(base.map(item => [key(item), item]));
+  const added = next.filter(item => {
+    const before = previous.get(key(item));
+    return !before || changed(before, item);
+  });
+  const current = new Set(next.map(key));
+  const removed = Array.from(previous.keys()).filter(itemKey => !current.has(itemKey));
+  return { added, removed };
+}
+
+function applyKeyed<T>(base: T[], key: (item: T) => string, added: T[] = [], removed: string[] = []): T[] {
+  const items = new Map(base.map(item => [key(item), item]));
+  removed.forEach(itemKey => items.delete(itemKey));
+  added.forEach(item => items.set(key(item), item));
+  return Array.from(items.values());
+}
+
+// Hermes has no TextDecoder, so UTF-8 is converted by hand
+function encodeUtf8(text: string): Uint8Array {
+  const out: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      out.push(code);
+    } else if (code < 0x800) {
+      out.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      out.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      out.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let text = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f);
+      i += 3;
+    } else {
+      code = ((byte & 0x07) << 18) | ((bytes[i + 1] & 0x3f) << 12) |
+             ((bytes[i + 2] & 0x3f) << 6) | (bytes[i + 3] & 0x3f);
+      i += 4;
+    }
+    text += String.fromCodePoint(code);
+  }
+  return text;
+}
+
+// Type definitions
+export type WireEncoding = 'json' | 'binary';
+
+export interface ResonanceFrame {
+  seq: number;
+  globalResonance: number;
+  activeNodes: number;
+  harmonicField: QuantumFieldPoint[];
+  phiHarmonics: PhiHarmonic[];
+  entanglements: QuantumEntanglement[];
+  quantumCoherence: number;
+  intervalsCount: number;
+  chordsCount: number;
+  fibonacciChainsCount: number;
+  timestamp: number;
+}
+
+export interface ResonanceDelta {
+  seq: number;
+  baseSeq: number; // Frame this delta applies to
+  timestamp: number;
+  globalResonance?: number;
+  activeNodes?: number;
+  quantumCoherence?: number;
+  intervalsCount?: number;
+  chordsCount?: number;
+  fibonacciChainsCount?: number;
+  fieldLength?: number; // Set when the number of field points changed
+  fieldPoints?: { index: number; point: QuantumFieldPoint }[];
+  phiHarmonicsAdded?: PhiHarmonic[]; // New or changed, keyed by node pair
+  phiHarmonicsRemoved?: string[];
+  entanglementsAdded?: QuantumEntanglement[]; // New or changed, keyed by ID
+  entanglementsRemoved?: string[];
+}
+
+// Fields read from the JSON trailer are unknown until validated
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+export type DecodedResonanceMessage =
+  | ({ type: 'resonance_update' } & Unchecked<ResonanceFrame>)
+  | ({ type: 'resonance_delta' } & Unchecked<ResonanceDelta>);
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { parseClientMessage } from './protocol';
+import {
+  DEFAULT_SUBSCRIPTION,
+  MAX_FIELD_RESOLUTION,
+  MAX_UPDATE_RATE,
+  MIN_UPDATE_RATE,
+  resolveSubscription,
+  Subscription,
+  wantsResonanceUpdates
+} from './subscriptions';
+
+describe('resolveSubscription', () => {
+  it('starts from every channel at the full rate and resolution', () => {
+    expect(DEFAULT_SUBSCRIPTION).toEqual({
+      channels: ['stats', 'quantumField', 'phiHarmonics', 'cascades', 'entanglements'],
+      maxRate: MAX_UPDATE_RATE,
+      resolution: MAX_FIELD_RESOLUTION
+    });
+  });
+
+  it('keeps the requested channels once each, in their canonical order', () => {
+    const resolved = resolveSubscription({ channels: ['entanglements', 'stats', 'stats'] }, DEFAULT_SUBSCRIPTION);
+    expect(resolved.channels).toEqual(['stats', 'entanglements']);
+    expect(resolveSubscription({ channels: [] }, DEFAULT_SUBSCRIPTION).channels).toEqual([]);
+  });
+
+  it('keeps the current value of every option left out', () => {
+    const current: Subscription = { channels: ['stats'], maxRate: 2, resolution: 12 };
+    expect(resolveSubscription({}, current)).toEqual(current);
+    expect(resolveSubscription({ resolution: 20 }, current)).toEqual({ ...current, resolution: 20 });
+  });
+
+  it('clamps the rate to what the broadcast loop can do', () => {
+    expect(resolveSubscription({ maxRate: 60 }, DEFAULT_SUBSCRIPTION).maxRate).toBe(MAX_UPDATE_RATE);
+    expect(resolveSubscription({ maxRate: 0.01 }, DEFAULT_SUBSCRIPTION).maxRate).toBe(MIN_UPDATE_RATE);
+    expect(resolveSubscription({ maxRate: 2.5 }, DEFAULT_SUBSCRIPTION).maxRate).toBe(2.5);
+  });
+});
+
+describe('wantsResonanceUpdates', () => {
+  it('is false only for sockets that subscribe to cascades alone or nothing', () => {
+    expect(wantsResonanceUpdates(DEFAULT_SUBSCRIPTION)).toBe(true);
+    expect(wantsResonanceUpdates({ ...DEFAULT_SUBSCRIPTION, channels: ['stats'] })).toBe(true);
+    expect(wantsResonanceUpdates({ ...DEFAULT_SUBSCRIPTION, channels: ['cascades'] })).toBe(false);
+    expect(wantsResonanceUpdates({ ...DEFAULT_SUBSCRIPTION, channels: [] })).toBe(false);
+  });
+});
+
+describe('subscribe messages', () => {
+  function subscribe(fields: Record<string, unknown>) {
+    return parseClientMessage(JSON.stringify({ type: 'subscribe', timestamp: 1, ...fields }));
+  }
+
+  it('accept known channels, a positive rate and a resolution up to the snapshot size', () => {
+    expect(subscribe({ channels: ['stats', 'cascades'], maxRate: 2, resolution: MAX_FIELD_RESOLUTION }).success).toBe(true);
+    expect(subscribe({}).success).toBe(true);
+  });
+
+  it('reject unknown channels and out-of-range options', () => {
+    expect(subscribe({ channels: ['weather'] })).toMatchObject({ success: false, code: 'invalid_message' });
+    expect(subscribe({ maxRate: 0 }).success).toBe(false);
+    expect(subscribe({ resolution: 0 }).success).toBe(false);
+    expect(subscribe({ resolution: MAX_FIELD_RESOLUTION + 1 }).success).toBe(false);
+    expect(subscribe({ resolution: 2.5 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+// What a socket receives, chosen with a subscribe message. Shared by the WebSocket server
+// and useHarmonicWebSocket, so keep it free of Node and React Native APIs.
+//   stats          global resonance, active nodes, quantum coherence and relationship counts
+//   quantumField   the field point snapshot, at the chosen resolution
+//   phiHarmonics   detected phi harmonics
+//   entanglements  quantum entanglements in the room
+//   cascades       cascade_event messages
+// portal_state, entanglement results and errors are always sent.
+export const SUBSCRIPTION_CHANNELS = ['stats', 'quantumField', 'phiHarmonics', 'cascades', 'entanglements'] as const;
+
+export type SubscriptionChannel = typeof SUBSCRIPTION_CHANNELS[number];
+
+// The broadcast loop runs at 10 FPS, and a full snapshot has 50 field points
+export const MAX_UPDATE_RATE = 10;
+export const MIN_UPDATE_RATE = 0.1;
+export const MAX_FIELD_RESOLUTION = 50;
+
+export interface Subscription {
+  channels: SubscriptionChannel[];
+  maxRate: number; // Resonance updates per second
+  resolution: number; // Quantum field points per update
+}
+
+// Sockets that never subscribe get everything
+export const DEFAULT_SUBSCRIPTION: Subscription = {
+  channels: [...SUBSCRIPTION_CHANNELS],
+  maxRate: MAX_UPDATE_RATE,
+  resolution: MAX_FIELD_RESOLUTION
+};
+
+// Checked against protocol.ts before it gets here
+export interface SubscriptionRequest {
+  channels?: SubscriptionChannel[];
+  maxRate?: number;
+  resolution?: number;
+}
+
+// Options left out keep their current value; rates outside what the broadcast loop can do are clamped
+export function resolveSubscription(request: SubscriptionRequest, current: Subscription): Subscription {
+  return {
+    channels: request.channels
+      ? SUBSCRIPTION_CHANNELS.filter(channel => request.channels!.includes(channel))
+      : current.channels,
+    maxRate: request.maxRate !== undefined
+      ? Math.min(MAX_UPDATE_RATE, Math.max(MIN_UPDATE_RATE, request.maxRate))
+      : current.maxRate,
+    resolution: request.resolution ?? current.resolution
+  };
+}
+
+// Whether a subscription needs resonance updates at all
+export function wantsResonanceUpdates(subscription: Subscription): boolean {
+  return subscription.channels.some(channel => channel !== 'cascades');
+}
@@ -80,8 +80,12 @@ export function ConsciousnessFieldDemo() {
     if (!isConnected || activeNodes < 2) return;
     
     try {
-      // Find another active node (simplified)
-      const targetUserId = `node_${Date.now() - 1000}`;
+      // Pick another node we already share a phi harmonic with
+      const targetUserId = phiHarmonics
+        .flatMap(phi => [phi.node1, phi.node2])
+        .find(nodeId => nodeId !== userId);
+      if (!targetUserId) return;
+
       await createQuantumEntanglement(targetUserId);
       console.log(`🔗 Created quantum entanglement with ${targetUserId}`);
     } catch (error) {
@@ -12,7 +12,7 @@ export function HarmonicConnectionStatus() {
     activeNodes: wsNodes,
     isWebSocketDisabled,
     retryConnection
-  } = useHarmonicWebSocket();
+  } = useHarmonicWebSocket('global', { channels: ['stats'], maxRate: 2 }); // The badge only shows figures
   
   const {
     isConnected: bridgeConnected,
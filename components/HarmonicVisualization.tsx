@@ -1,11 +1,19 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
 import { View, StyleSheet, Animated, Dimensions, Platform } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useMemoryField } from '@/providers/MemoryFieldProvider';
 import { useSolfeggio } from '@/providers/SolfeggioProvider';
+import { trpc } from '@/lib/trpc';
+import type { FieldRaster } from '@/backend/services/FieldSampler';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+// Collective field heatmap, interpolated by the backend from a spiral sampling
+const HEATMAP_INPUT = {
+  sampling: { mode: 'spiral', resolution: 120, raster: { width: 16, height: 16 } }
+} as const;
+const FIELD_SCALE = 2; // Screen points per field unit, as for the resonance points
+
 
 
 export default function HarmonicVisualization() {
@@ -15,6 +23,11 @@ export default function HarmonicVisualization() {
   const waveAnim = useRef(new Animated.Value(0)).current;
   const resonanceAnim = useRef(new Animated.Value(0)).current;
   const wavePhase = useRef(0);
+  const [fieldRaster, setFieldRaster] = useState<FieldRaster | null>(null);
+
+  trpc.harmonic.onQuantum.useSubscription(HEATMAP_INPUT, {
+    onData: (data) => setFieldRaster(data.raster)
+  });
   
   // Start wave animation
   useEffect(() => {
@@ -121,6 +134,32 @@ export default function HarmonicVisualization() {
         />
       </Animated.View>
       
+      {/* Collective field heatmap: opacity from intensity, hue from psi bloom */}
+      {fieldRaster && (
+        <View
+          style={[
+            styles.heatmap,
+            {
+              left: SCREEN_WIDTH / 2 + fieldRaster.bounds.minX * FIELD_SCALE,
+              top: SCREEN_HEIGHT / 2 + fieldRaster.bounds.minY * FIELD_SCALE,
+              width: (fieldRaster.bounds.maxX - fieldRaster.bounds.minX) * FIELD_SCALE,
+              height: (fieldRaster.bounds.maxY - fieldRaster.bounds.minY) * FIELD_SCALE,
+            },
+          ]}
+        >
+          {fieldRaster.intensity.map((intensity, cell) => (
+            <View
+              key={cell}
+              style={{
+                width: `${100 / fieldRaster.width}%`,
+                height: `${100 / fieldRaster.height}%`,
+                backgroundColor: `hsla(${160 + fieldRaster.psiBloom[cell] * 120}, 70%, 55%, ${intensity * 0.35})`,
+              }}
+            />
+          ))}
+        </View>
+      )}
+      
       {/* Enhanced Solfeggio frequency rings with quantum states */}
       {Platform.OS !== 'web' ? (
         <View style={StyleSheet.absoluteFillObject}>
@@ -377,4 +416,9 @@ const styles = StyleSheet.create({
   resonancePoint: {
     position: 'absolute',
   },
+  heatmap: {
+    position: 'absolute',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
 });
\ No newline at end of file
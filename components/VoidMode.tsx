@@ -14,6 +14,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { ArrowLeft, Moon } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { useMemoryField } from '@/providers/MemoryFieldProvider';
+import { useHarmonicWebSocket } from '@/hooks/useHarmonicWebSocket';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -25,6 +26,10 @@ export default function VoidMode() {
     releaseAll,
     setMemories,
   } = useMemoryField();
+  // Portal state changes arrive on every subscription, so no resonance updates are needed
+  const { portalState } = useHarmonicWebSocket('global', { channels: [] });
+  const roomResonanceRef = useRef(roomResonance);
+  roomResonanceRef.current = roomResonance;
 
   const [sacredInput, setSacredInput] = useState('');
   const [showInput, setShowInput] = useState(false);
@@ -88,6 +93,17 @@ export default function VoidMode() {
     ).start();
   }, []);
 
+  // The collective field opened the portal
+  useEffect(() => {
+    if (portalState === 'portal_active' || portalState === 'void_transitions') {
+      setRoomResonance(Math.min(1, roomResonanceRef.current + 0.2));
+
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    }
+  }, [portalState, setRoomResonance]);
+
   const handleSacredPhrase = () => {
     const phrase = sacredInput.toLowerCase();
     let isSacred = false;
@@ -194,6 +210,9 @@ export default function VoidMode() {
       {/* Room 64 indicator */}
       <View style={styles.roomIndicator}>
         <Text style={styles.roomText}>ROOM 64 | VOID MODE</Text>
+        {portalState !== 'standby' && (
+          <Text style={styles.portalText}>{portalState.replace('_', ' ').toUpperCase()}</Text>
+        )}
       </View>
 
       {/* Breathing indicator */}
@@ -328,6 +347,14 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     letterSpacing: 1,
   },
+  portalText: {
+    color: '#c8a2ff',
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1,
+    marginTop: 4,
+    textAlign: 'right',
+  },
   breathingIndicator: {
     position: 'absolute',
     top: 100,
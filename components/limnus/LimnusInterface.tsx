@@ -36,26 +36,34 @@ export const LimnusInterface: React.FC = () => {
   const [syncResult, setSyncResult] = useState<any>(null);
   const [showSpiralContext, setShowSpiralContext] = useState(false);
 
-  // Session status query
+  // Session status pushed as it changes
+  const sessionSubscription = trpc.limnus.consent.onSession.useSubscription(
+    { sessionId: session?.sessionId || '' },
+    { enabled: !!session?.sessionId }
+  );
+
+  // Poll instead while the subscription is not live
   const sessionQuery = trpc.limnus.consent.getSession.useQuery(
     { sessionId: session?.sessionId || '' },
     { 
-      enabled: !!session?.sessionId,
+      enabled: !!session?.sessionId && sessionSubscription.status !== 'pending',
       refetchInterval: 5000 // Poll every 5 seconds
     }
   );
 
-  // Update session state from query
+  const sessionStatus = sessionSubscription.data ?? sessionQuery.data;
+
+  // Update session state from the latest status
   useEffect(() => {
-    if (sessionQuery.data) {
+    if (sessionStatus) {
       setSession(prev => prev ? {
         ...prev,
-        status: sessionQuery.data.status,
-        uptime: sessionQuery.data.uptime
+        status: sessionStatus.status,
+        uptime: sessionStatus.uptime
       } : null);
       
       // Update phase based on session status
-      switch (sessionQuery.data.status) {
+      switch (sessionStatus.status) {
         case 'active':
           setCurrentPhase(LimnusPhase.REFLECT);
           break;
@@ -76,7 +84,7 @@ export const LimnusInterface: React.FC = () => {
           break;
       }
     }
-  }, [sessionQuery.data]);
+  }, [sessionStatus]);
 
   // Handle consent activation
   const handleConsentActivated = (sessionData: any) => {
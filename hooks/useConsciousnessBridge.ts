@@ -3,7 +3,9 @@ import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Haptics from 'expo-haptics';
 import { trpc } from '@/lib/trpc';
+import { ensureDeviceToken } from '@/lib/deviceAuth';
 import { Memory } from '@/types/memory';
+import type { FieldStats } from '@/backend/services/HarmonicFieldProcessor';
 
 interface ConsciousnessEvent {
   type: 'SACRED_PHRASE' | 'MEMORY_CRYSTALLIZE' | 'FIELD_UPDATE' | 'PULSE_CREATE' | 'TOUCH_RIPPLE';
@@ -16,6 +18,7 @@ interface ConsciousnessEvent {
 
 interface ConsciousnessBridgeState {
   consciousnessId: string | null;
+  isRegistered: boolean;
   isConnected: boolean;
   globalResonance: number;
   connectedNodes: number;
@@ -26,6 +29,7 @@ interface ConsciousnessBridgeState {
 export function useConsciousnessBridge() {
   const [state, setState] = useState<ConsciousnessBridgeState>({
     consciousnessId: null,
+    isRegistered: false,
     isConnected: false,
     globalResonance: 0,
     connectedNodes: 0,
@@ -80,6 +84,18 @@ export function useConsciousnessBridge() {
     initializeConsciousness();
   }, []);
 
+  // Register this device so the server can verify it owns its consciousness ID
+  const registerMutation = trpc.auth.register.useMutation();
+  const registerDevice = registerMutation.mutateAsync;
+
+  useEffect(() => {
+    if (!state.consciousnessId) return;
+
+    ensureDeviceToken(state.consciousnessId, registerDevice)
+      .then(() => setState(prev => ({ ...prev, isRegistered: true })))
+      .catch(error => console.error('Device registration failed:', error));
+  }, [state.consciousnessId, registerDevice]);
+
   // Sync mutation
   const syncMutation = trpc.consciousness.sync.useMutation({
     onSuccess: (data) => {
@@ -102,36 +118,44 @@ export function useConsciousnessBridge() {
     onError: (error) => {
       console.error('Consciousness sync failed:', error);
       setState(prev => ({ ...prev, isConnected: false }));
+
+      // Expired device token: refresh it before the next sync
+      if (error.data?.code === 'UNAUTHORIZED' && state.consciousnessId) {
+        ensureDeviceToken(state.consciousnessId, registerDevice, true)
+          .catch(refreshError => console.error('Device token refresh failed:', refreshError));
+      }
     },
   });
 
-  // Field query for real-time resonance
-  const fieldQuery = trpc.consciousness.field.useQuery(
-    {
-      consciousnessId: state.consciousnessId || '',
-      currentResonance: state.globalResonance,
-      memoryStates: [], // This would be passed from the memory field
-    },
-    {
-      enabled: !!state.consciousnessId && state.isConnected,
-      refetchInterval: 5000, // Update every 5 seconds
-    }
-  );
-  
-  // Handle field query success
+  const applyFieldStats = useCallback((stats: FieldStats) => {
+    setState(prev => ({
+      ...prev,
+      globalResonance: stats.globalResonance,
+      connectedNodes: stats.activeNodes,
+    }));
+  }, []);
+
+  // Field stats pushed as the shared field changes
+  const fieldSubscription = trpc.harmonic.onField.useSubscription(undefined, {
+    enabled: !!state.consciousnessId && state.isConnected,
+    onData: applyFieldStats,
+  });
+
+  // Poll instead while the subscription is not live
+  const fieldQuery = trpc.harmonic.field.useQuery(undefined, {
+    enabled: !!state.consciousnessId && state.isConnected && fieldSubscription.status !== 'pending',
+    refetchInterval: 5000, // Update every 5 seconds
+  });
+
   useEffect(() => {
     if (fieldQuery.data) {
-      setState(prev => ({
-        ...prev,
-        globalResonance: fieldQuery.data.globalResonance,
-        connectedNodes: fieldQuery.data.connectedNodes,
-      }));
+      applyFieldStats(fieldQuery.data);
     }
-  }, [fieldQuery.data]);
+  }, [fieldQuery.data, applyFieldStats]);
 
   // Sync events periodically
   useEffect(() => {
-    if (!state.consciousnessId) return;
+    if (!state.consciousnessId || !state.isRegistered) return;
 
     syncIntervalRef.current = setInterval(async () => {
       const eventsToSync = [...eventQueueRef.current, ...state.offlineQueue];
@@ -162,7 +186,7 @@ export function useConsciousnessBridge() {
         clearInterval(syncIntervalRef.current);
       }
     };
-  }, [state.consciousnessId, state.offlineQueue, syncMutation]);
+  }, [state.consciousnessId, state.isRegistered, state.offlineQueue, syncMutation]);
 
   // Methods to add events
   const addEvent = useCallback((type: ConsciousnessEvent['type'], data: Record<string, any>) => {
@@ -259,7 +283,7 @@ export function useConsciousnessBridge() {
     sendPulseCreation,
     sendTouchRipple,
     updateFieldState,
-    fieldData: fieldQuery.data,
+    fieldData: fieldSubscription.data ?? fieldQuery.data,
     roomResonance: state.globalResonance,
     offlineQueueLength: state.offlineQueue.length,
   };
@@ -2,6 +2,11 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { trpc } from '@/lib/trpc';
 import { SolfeggioEngine, SOLFEGGIO_FREQUENCIES } from '@/lib/SolfeggioEngine';
 import { useConsciousnessBridge } from './useConsciousnessBridge';
+import type { PhiHarmonic, QuantumFieldPoint } from '@/backend/websocket/protocol';
+import type { inferRouterOutputs } from '@trpc/server';
+import type { AppRouter } from '@/backend/trpc/app-router';
+
+type QuantumFieldData = inferRouterOutputs<AppRouter>['harmonic']['quantum'];
 
 interface HarmonicBridgeState {
   isConnected: boolean;
@@ -15,22 +20,6 @@ interface HarmonicBridgeState {
   averageFrequency: number;
 }
 
-interface PhiHarmonic {
-  node1: string;
-  node2: string;
-  ratio: number;
-  strength: number;
-  type: 'golden_ratio' | 'golden_square';
-}
-
-interface QuantumFieldPoint {
-  x: number;
-  y: number;
-  intensity: number;
-  quantumState: { psi_collapse: number; psi_bloom: number };
-  resonance: number;
-}
-
 export function useHarmonicBridge() {
   const [state, setState] = useState<HarmonicBridgeState>({
     isConnected: false,
@@ -46,7 +35,9 @@ export function useHarmonicBridge() {
 
   const engineRef = useRef<SolfeggioEngine | null>(null);
   const streamIntervalRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
-  const { consciousnessId } = useConsciousnessBridge();
+  const { consciousnessId: bridgeId, isRegistered } = useConsciousnessBridge();
+  // Stream only once the device token has been issued
+  const consciousnessId = isRegistered ? bridgeId : null;
 
   // Initialize Solfeggio Engine
   useEffect(() => {
@@ -83,28 +74,37 @@ export function useHarmonicBridge() {
     }
   });
 
-  // Query quantum field state
+  const applyQuantumField = useCallback((data: QuantumFieldData) => {
+    setState(prev => ({
+      ...prev,
+      globalResonance: data.globalResonance,
+      activeNodes: data.activeNodes,
+      phiHarmonics: data.phiHarmonics,
+      quantumField: data.quantumField,
+      resonanceLevel: data.resonanceLevel as 'low' | 'medium' | 'high',
+      sacredGeometryActive: data.sacredGeometryActive,
+      fieldCoherence: data.fieldCoherence,
+      averageFrequency: data.averageFrequency
+    }));
+  }, []);
+
+  // Quantum field pushed as it changes
+  const quantumFieldSubscription = trpc.harmonic.onQuantum.useSubscription(undefined, {
+    enabled: state.isConnected,
+    onData: applyQuantumField
+  });
+
+  // Poll instead while the subscription is not live
   const quantumFieldQuery = trpc.harmonic.quantum.useQuery(undefined, {
     refetchInterval: 3000, // Update every 3 seconds
-    enabled: state.isConnected
+    enabled: state.isConnected && quantumFieldSubscription.status !== 'pending'
   });
 
-  // Update state from quantum field query
   useEffect(() => {
     if (quantumFieldQuery.data) {
-      setState(prev => ({
-        ...prev,
-        globalResonance: quantumFieldQuery.data.globalResonance,
-        activeNodes: quantumFieldQuery.data.activeNodes,
-        phiHarmonics: quantumFieldQuery.data.phiHarmonics,
-        quantumField: quantumFieldQuery.data.quantumField,
-        resonanceLevel: quantumFieldQuery.data.resonanceLevel as 'low' | 'medium' | 'high',
-        sacredGeometryActive: quantumFieldQuery.data.sacredGeometryActive,
-        fieldCoherence: quantumFieldQuery.data.fieldCoherence,
-        averageFrequency: quantumFieldQuery.data.averageFrequency
-      }));
+      applyQuantumField(quantumFieldQuery.data);
     }
-  }, [quantumFieldQuery.data]);
+  }, [quantumFieldQuery.data, applyQuantumField]);
 
   // Stream active frequencies to backend
   const streamActiveFrequencies = useCallback(async () => {
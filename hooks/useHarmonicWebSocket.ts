@@ -1,32 +1,57 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Platform } from 'react-native';
+import { getDeviceToken } from '@/lib/deviceAuth';
+import {
+  applyResonanceDelta,
+  RESONANCE_BINARY_VERSION,
+  ResonanceFrame
+} from '@/backend/websocket/resonanceCodec';
+import type { Subscription } from '@/backend/websocket/subscriptions';
+import {
+  ClientMessage,
+  HARMONIC_PROTOCOL_VERSION,
+  parseBinaryServerMessage,
+  parseServerMessage,
+  PhiHarmonic,
+  PortalState,
+  QuantumEntanglement,
+  QuantumFieldPoint,
+  ServerMessage,
+  ServerMessageOf
+} from '@/backend/websocket/protocol';
+
+// Resonance updates arrive as binary frames unless EXPO_PUBLIC_HARMONIC_WS_ENCODING=json (for debugging)
+const PREFERRED_ENCODING: 'json' | 'binary' =
+  process.env.EXPO_PUBLIC_HARMONIC_WS_ENCODING === 'json' ? 'json' : 'binary';
 
 interface HarmonicConnection {
   userId: string | null;
+  roomId: string | null;
   isConnected: boolean;
   globalResonance: number;
   activeNodes: number;
   harmonicField: QuantumFieldPoint[];
   phiHarmonics: PhiHarmonic[];
+  entanglements: QuantumEntanglement[];
+  portalState: PortalState;
+  lastCascade: CascadeEvent | null;
   quantumCoherence: number;
+  // Musical relationships between node frequencies in the room
+  intervalsCount: number;
+  chordsCount: number;
+  fibonacciChainsCount: number;
+  encoding: 'json' | 'binary';
   connectionQuality: 'excellent' | 'good' | 'poor' | 'disconnected';
 }
 
-interface QuantumFieldPoint {
-  x: number;
-  y: number;
-  intensity: number;
-  quantumState: { psi_collapse: number; psi_bloom: number };
-  resonance: number;
-}
+// Close code for a protocol version the server does not speak; reconnecting will not help
+const CLOSE_UNSUPPORTED_PROTOCOL = 4426;
 
-interface PhiHarmonic {
-  node1: string;
-  node2: string;
-  ratio: number;
-  strength: number;
-  type: 'golden_ratio' | 'golden_square';
-}
+// Close code for a socket replaced by a newer one of the same device, e.g. another mounted
+// hook; reconnecting would replace that one in turn
+const CLOSE_REPLACED = 4000;
+
+type CascadeEvent = Omit<ServerMessageOf<'cascade_event'>, 'type'>;
 
 interface HarmonicStreamData {
   frequency: number;
@@ -34,65 +59,205 @@ interface HarmonicStreamData {
   phase?: number;
 }
 
-export function useHarmonicWebSocket() {
+// Outgoing messages are checked against the shared protocol at compile time
+function serialize(message: ClientMessage): string {
+  return JSON.stringify(message);
+}
+
+// Joins the given field room; omit it to share the default room. Components that only show a
+// few figures can subscribe to fewer channels, a lower rate or a coarser field.
+export function useHarmonicWebSocket(roomId: string = 'global', subscription?: Partial<Subscription>) {
   const [connection, setConnection] = useState<HarmonicConnection>({
     userId: null,
+    roomId: null,
     isConnected: false,
     globalResonance: 0,
     activeNodes: 0,
     harmonicField: [],
     phiHarmonics: [],
+    entanglements: [],
+    portalState: 'standby',
+    lastCascade: null,
     quantumCoherence: 0,
+    intervalsCount: 0,
+    chordsCount: 0,
+    fibonacciChainsCount: 0,
+    encoding: 'json',
     connectionQuality: 'disconnected'
   });
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const heartbeatIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const [reconnectAttempts, setReconnectAttempts] = useState<number>(0);
+  // A ref, so counting attempts does not rebuild connect and re-run the connect effect
+  const reconnectAttemptsRef = useRef<number>(0);
   const maxReconnectAttempts = 5;
+  // Streams are held back until the server's rate limit window has passed
+  const rateLimitedUntilRef = useRef<number>(0);
+  // Last resonance frame applied; deltas are built on top of it
+  const frameRef = useRef<ResonanceFrame | null>(null);
+  const resyncRequestedRef = useRef<boolean>(false);
+  // Presented on reconnect so a dropped connection keeps its node, signature and resonance
+  const resumeTokenRef = useRef<string | null>(null);
+  // Bumped on disconnect; a connect still fetching its URL from an older generation was torn down
+  const generationRef = useRef<number>(0);
+  // Serialized so callers can pass the subscription inline
+  const subscriptionKey = subscription ? JSON.stringify(subscription) : null;
+  const subscriptionKeyRef = useRef<string | null>(subscriptionKey);
+  subscriptionKeyRef.current = subscriptionKey;
+
+  const sendSubscription = useCallback(() => {
+    if (subscriptionKeyRef.current && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(serialize({ type: 'subscribe', ...JSON.parse(subscriptionKeyRef.current) }));
+    }
+  }, []);
 
   // Get WebSocket URL based on environment
-  const getWebSocketUrl = useCallback(() => {
+  const getWebSocketUrl = useCallback(async () => {
+    let wsUrl = 'ws://localhost:3000/api/harmonic-ws';
+
     if (Platform.OS === 'web') {
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
       const host = window.location.host;
-      return `${protocol}//${host}/api/harmonic-ws`;
-    } else {
+      wsUrl = `${protocol}//${host}/api/harmonic-ws`;
+    } else if (process.env.EXPO_PUBLIC_RORK_API_BASE_URL) {
       // For mobile, use the same base URL as tRPC but with WebSocket protocol
-      if (process.env.EXPO_PUBLIC_RORK_API_BASE_URL) {
-        const baseUrl = process.env.EXPO_PUBLIC_RORK_API_BASE_URL;
-        const wsUrl = baseUrl.replace('https://', 'wss://').replace('http://', 'ws://');
-        return `${wsUrl}/api/harmonic-ws`;
-      }
-      return 'ws://localhost:3000/api/harmonic-ws';
+      const baseUrl = process.env.EXPO_PUBLIC_RORK_API_BASE_URL;
+      wsUrl = `${baseUrl.replace('https://', 'wss://').replace('http://', 'ws://')}/api/harmonic-ws`;
     }
-  }, []);
+
+    // The device token binds this socket to the node the tRPC bridge streams as
+    const params = [`room=${encodeURIComponent(roomId)}`, `protocol=${HARMONIC_PROTOCOL_VERSION}`];
+    const token = await getDeviceToken();
+    if (token) {
+      params.push(`token=${encodeURIComponent(token)}`);
+    }
+    if (resumeTokenRef.current) {
+      params.push(`resume=${encodeURIComponent(resumeTokenRef.current)}`);
+    }
+    return `${wsUrl}?${params.join('&')}`;
+  }, [roomId]);
 
   // Handle incoming messages
-  const handleMessage = useCallback((data: any) => {
+  const handleMessage = useCallback((data: ServerMessage) => {
     switch (data.type) {
-      case 'connection_established':
-        console.log('Harmonic node established:', data.userId);
+      case 'connection_established': {
+        console.log(`Harmonic node ${data.resumed ? 'resumed' : 'established'}:`, data.userId);
+        frameRef.current = null;
+        resumeTokenRef.current = data.resumeToken;
         setConnection(prev => ({
           ...prev,
           userId: data.userId,
-          globalResonance: data.globalResonance || 0,
-          activeNodes: data.activeNodes || 0
+          roomId: data.roomId,
+          globalResonance: data.globalResonance,
+          activeNodes: data.activeNodes,
+          portalState: data.portalState,
+          encoding: 'json'
+        }));
+        sendSubscription();
+
+        // Ask for binary frames when the server speaks our version, and for deltas when offered
+        const binary = PREFERRED_ENCODING === 'binary' &&
+          data.protocol.binaryVersions.includes(RESONANCE_BINARY_VERSION);
+        if (binary || data.protocol.deltas) {
+          wsRef.current?.send(serialize({
+            type: 'negotiate',
+            encoding: binary ? 'binary' : 'json',
+            version: binary ? RESONANCE_BINARY_VERSION : undefined,
+            deltas: data.protocol.deltas
+          }));
+        }
+        break;
+      }
+
+      case 'subscribed':
+        console.log(`Harmonic subscription: ${data.channels.join(', ') || 'none'} at ${data.maxRate}/s`);
+        break;
+
+      case 'encoding_selected':
+        setConnection(prev => ({
+          ...prev,
+          encoding: data.encoding
         }));
         break;
 
       case 'resonance_update':
+      case 'resonance_delta': {
+        let frame: ResonanceFrame;
+        if (data.type === 'resonance_update') {
+          frame = data;
+          resyncRequestedRef.current = false;
+        } else if (frameRef.current && frameRef.current.seq === data.baseSeq) {
+          frame = applyResonanceDelta(frameRef.current, data);
+        } else {
+          // A delta against a frame we never applied; wait for a keyframe
+          if (!resyncRequestedRef.current) {
+            resyncRequestedRef.current = true;
+            wsRef.current?.send(serialize({ type: 'resync' }));
+          }
+          break;
+        }
+        frameRef.current = frame;
+
         setConnection(prev => ({
           ...prev,
-          globalResonance: data.globalResonance || 0,
-          activeNodes: data.activeNodes || 0,
-          harmonicField: data.harmonicField || [],
-          phiHarmonics: data.phiHarmonics || [],
-          quantumCoherence: data.quantumCoherence || 0,
+          globalResonance: frame.globalResonance || 0,
+          activeNodes: frame.activeNodes || 0,
+          harmonicField: frame.harmonicField || [],
+          phiHarmonics: frame.phiHarmonics || [],
+          entanglements: frame.entanglements || [],
+          quantumCoherence: frame.quantumCoherence || 0,
+          intervalsCount: frame.intervalsCount || 0,
+          chordsCount: frame.chordsCount || 0,
+          fibonacciChainsCount: frame.fibonacciChainsCount || 0,
           connectionQuality: prev.isConnected ? 'excellent' : 'disconnected'
         }));
         break;
+      }
+
+      case 'entanglement_created':
+        console.log('🔗 Quantum entanglement established:', data.entanglement.id);
+        setConnection(prev => ({
+          ...prev,
+          entanglements: [
+            ...prev.entanglements.filter(e => e.id !== data.entanglement.id),
+            data.entanglement
+          ]
+        }));
+        break;
+
+      case 'cascade_event':
+        console.log(`🌀 Phi cascade from ${data.sourceNode}: ${data.affectedNodes.length} nodes resonating`);
+        setConnection(prev => ({
+          ...prev,
+          lastCascade: {
+            sourceNode: data.sourceNode,
+            frequencies: data.frequencies,
+            amplitude: data.amplitude,
+            affectedNodes: data.affectedNodes,
+            timestamp: data.timestamp
+          }
+        }));
+        break;
+
+      case 'portal_state':
+        console.log(`🌊 Room 64 Portal: ${data.previousState} → ${data.state}`);
+        setConnection(prev => ({
+          ...prev,
+          portalState: data.state
+        }));
+        break;
+
+      case 'entanglement_failed':
+        console.log('Quantum entanglement failed:', data.targetUserId, data.reason);
+        break;
+
+      case 'error':
+        console.warn(`Harmonic ${data.rejectedType} rejected: ${data.reason}`);
+        if (data.code === 'rate_limited') {
+          rateLimitedUntilRef.current = Date.now() + (data.retryAfterMs || 0);
+        }
+        break;
 
       case 'heartbeat_ack':
         setConnection(prev => ({
@@ -100,28 +265,33 @@ export function useHarmonicWebSocket() {
           connectionQuality: prev.isConnected ? 'excellent' : 'disconnected'
         }));
         break;
-
-      default:
-        console.log('Unknown harmonic message type:', data.type);
     }
-  }, []);
+  }, [sendSubscription]);
 
   // Connect to WebSocket
-  const connect = useCallback(() => {
+  const connect = useCallback(async () => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       return;
     }
 
     try {
-      const wsUrl = getWebSocketUrl();
+      const generation = generationRef.current;
+      const wsUrl = await getWebSocketUrl();
+      // Disconnected or unmounted while the device token was fetched, or another connect got there first
+      if (generation !== generationRef.current ||
+          wsRef.current?.readyState === WebSocket.CONNECTING ||
+          wsRef.current?.readyState === WebSocket.OPEN) {
+        return;
+      }
       console.log('Connecting to Harmonic Field:', wsUrl);
       
       const ws = new WebSocket(wsUrl);
+      ws.binaryType = 'arraybuffer';
       wsRef.current = ws;
 
       ws.onopen = () => {
         console.log('Connected to Harmonic Resonance Field');
-        setReconnectAttempts(0);
+        reconnectAttemptsRef.current = 0;
         setConnection(prev => ({
           ...prev,
           isConnected: true,
@@ -133,15 +303,22 @@ export function useHarmonicWebSocket() {
         }
         heartbeatIntervalRef.current = setInterval(() => {
           if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'heartbeat', timestamp: Date.now() }));
+            ws.send(serialize({ type: 'heartbeat', timestamp: Date.now() }));
           }
         }, 10000);
       };
 
       ws.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
-          handleMessage(data);
+          // Binary frames are resonance keyframes or deltas; everything else is JSON text
+          const parsed = typeof event.data === 'string'
+            ? parseServerMessage(event.data)
+            : parseBinaryServerMessage(event.data);
+          if (parsed.success) {
+            handleMessage(parsed.message);
+          } else {
+            console.warn(`Dropping harmonic ${parsed.rejectedType} message: ${parsed.reason}`);
+          }
         } catch (error) {
           console.error('Error parsing harmonic message:', error);
         }
@@ -149,6 +326,10 @@ export function useHarmonicWebSocket() {
 
       ws.onclose = (event) => {
         console.log('Disconnected from Harmonic Field:', event.code, event.reason);
+        // Closed by disconnect(); nothing left to update or reconnect
+        if (wsRef.current !== ws) {
+          return;
+        }
         setConnection(prev => ({
           ...prev,
           isConnected: false,
@@ -160,12 +341,24 @@ export function useHarmonicWebSocket() {
           heartbeatIntervalRef.current = null;
         }
 
-        if (reconnectAttempts < maxReconnectAttempts) {
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
+        // A normal close ends the session on the server too, so there is nothing to resume
+        if (event.code === 1000) {
+          resumeTokenRef.current = null;
+        }
+
+        if (event.code === CLOSE_UNSUPPORTED_PROTOCOL) {
+          console.warn(`Harmonic server does not speak protocol v${HARMONIC_PROTOCOL_VERSION}`);
+        } else if (event.code === CLOSE_REPLACED) {
+          console.warn('Harmonic connection replaced by a newer one from this device; not reconnecting');
+        } else if (reconnectAttemptsRef.current < maxReconnectAttempts) {
+          // Kicked by the rate limiter (4429): wait out the block before reconnecting
+          const delay = event.code === 4429
+            ? 60000
+            : Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000);
           console.log(`Reconnecting in ${delay}ms`);
           
           reconnectTimeoutRef.current = setTimeout(() => {
-            setReconnectAttempts(prev => prev + 1);
+            reconnectAttemptsRef.current++;
             connect();
           }, delay);
         }
@@ -190,12 +383,12 @@ export function useHarmonicWebSocket() {
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
     }
-  }, [getWebSocketUrl, reconnectAttempts, handleMessage]);
+  }, [getWebSocketUrl, handleMessage]);
 
   // Stream harmonic data to the field
   const streamHarmonic = useCallback((data: HarmonicStreamData) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      const message = {
+    if (wsRef.current?.readyState === WebSocket.OPEN && Date.now() >= rateLimitedUntilRef.current) {
+      const message: ClientMessage = {
         type: 'harmonic_stream',
         frequency: data.frequency,
         amplitude: data.amplitude,
@@ -203,7 +396,39 @@ export function useHarmonicWebSocket() {
         timestamp: Date.now()
       };
       
-      wsRef.current.send(JSON.stringify(message));
+      wsRef.current.send(serialize(message));
+      return true;
+    }
+    return false;
+  }, []);
+
+  // Trigger a phi cascade: frequency, frequency × φ and frequency × φ²
+  const sendPhiCascade = useCallback((frequency: number, amplitude: number, phase: number = 0) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN && Date.now() >= rateLimitedUntilRef.current) {
+      wsRef.current.send(serialize({
+        type: 'phi_cascade',
+        frequency,
+        amplitude,
+        phase,
+        timestamp: Date.now()
+      }));
+      return true;
+    }
+    return false;
+  }, []);
+
+  // Request quantum entanglement with another node in the field
+  const createQuantumEntanglement = useCallback((
+    targetUserId: string,
+    entanglementType: 'harmonic' | 'quantum' = 'harmonic'
+  ) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(serialize({
+        type: 'entangle',
+        targetUserId,
+        entanglementType,
+        timestamp: Date.now()
+      }));
       return true;
     }
     return false;
@@ -212,6 +437,7 @@ export function useHarmonicWebSocket() {
   // Disconnect from WebSocket
   const disconnect = useCallback(() => {
     console.log('Manually disconnecting from Harmonic Field');
+    generationRef.current++;
     
     if (heartbeatIntervalRef.current) {
       clearInterval(heartbeatIntervalRef.current);
@@ -227,22 +453,32 @@ export function useHarmonicWebSocket() {
       wsRef.current.close(1000, 'Manual disconnect');
       wsRef.current = null;
     }
+    resumeTokenRef.current = null;
 
     setConnection({
       userId: null,
+      roomId: null,
       isConnected: false,
       globalResonance: 0,
       activeNodes: 0,
       harmonicField: [],
       phiHarmonics: [],
+      entanglements: [],
+      portalState: 'standby',
+      lastCascade: null,
       quantumCoherence: 0,
+      intervalsCount: 0,
+      chordsCount: 0,
+      fibonacciChainsCount: 0,
+      encoding: 'json',
       connectionQuality: 'disconnected'
     });
     
-    setReconnectAttempts(0);
+    reconnectAttemptsRef.current = 0;
   }, []);
 
-  // Auto-connect on mount
+  // Auto-connect on mount; the effect only re-runs when the room changes, and a token from
+  // the old room's session cannot resume in the new one, so its cleanup disconnects for good
   useEffect(() => {
     connect();
     
@@ -251,6 +487,11 @@ export function useHarmonicWebSocket() {
     };
   }, [connect, disconnect]);
 
+  // Resubscribe when the caller changes its subscription
+  useEffect(() => {
+    sendSubscription();
+  }, [subscriptionKey, sendSubscription]);
+
   // Calculate connection metrics
   const connectionMetrics = {
     resonanceStrength: connection.globalResonance,
@@ -258,7 +499,9 @@ export function useHarmonicWebSocket() {
     phiHarmonicsActive: connection.phiHarmonics.length,
     quantumCoherence: connection.quantumCoherence,
     networkNodes: connection.activeNodes,
-    isQuantumEntangled: connection.phiHarmonics.length >= 2,
+    isQuantumEntangled: connection.phiHarmonics.length >= 2 ||
+      connection.entanglements.some(e => e.node1 === connection.userId || e.node2 === connection.userId),
+    entanglementCount: connection.entanglements.length,
     fieldStability: connection.connectionQuality === 'excellent' ? 1.0 : 
                    connection.connectionQuality === 'good' ? 0.7 : 
                    connection.connectionQuality === 'poor' ? 0.3 : 0.0
@@ -268,6 +511,8 @@ export function useHarmonicWebSocket() {
     connection,
     connectionMetrics,
     streamHarmonic,
+    sendPhiCascade,
+    createQuantumEntanglement,
     connect,
     disconnect,
     isConnected: connection.isConnected,
@@ -275,7 +520,13 @@ export function useHarmonicWebSocket() {
     globalResonance: connection.globalResonance,
     harmonicField: connection.harmonicField,
     phiHarmonics: connection.phiHarmonics,
+    entanglements: connection.entanglements,
+    portalState: connection.portalState,
+    lastCascade: connection.lastCascade,
     activeNodes: connection.activeNodes,
-    quantumCoherence: connection.quantumCoherence
+    quantumCoherence: connection.quantumCoherence,
+    intervalsCount: connection.intervalsCount,
+    chordsCount: connection.chordsCount,
+    fibonacciChainsCount: connection.fibonacciChainsCount
   };
 }
\ No newline at end of file
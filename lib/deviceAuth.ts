@@ -0,0 +1,35 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const DEVICE_TOKEN_KEY = 'consciousnessToken';
+
+type RegisterDevice = (input: { consciousnessId: string }) => Promise<{ token: string }>;
+
+// Shared across hook instances so concurrent mounts register only once
+let pendingRegistration: Promise<string> | null = null;
+
+export function getDeviceToken(): Promise<string | null> {
+  return AsyncStorage.getItem(DEVICE_TOKEN_KEY);
+}
+
+// Return the stored device token, registering the consciousness ID first if needed.
+// Pass `refresh` to re-register with the current token after it has expired.
+export function ensureDeviceToken(
+  consciousnessId: string,
+  register: RegisterDevice,
+  refresh = false
+): Promise<string> {
+  if (!pendingRegistration) {
+    pendingRegistration = (async () => {
+      const stored = await getDeviceToken();
+      if (stored && !refresh) return stored;
+
+      const { token } = await register({ consciousnessId });
+      await AsyncStorage.setItem(DEVICE_TOKEN_KEY, token);
+      return token;
+    })().finally(() => {
+      pendingRegistration = null;
+    });
+  }
+
+  return pendingRegistration;
+}
@@ -1,7 +1,8 @@
 import { createTRPCReact } from "@trpc/react-query";
-import { httpLink } from "@trpc/client";
+import { httpLink, httpSubscriptionLink, splitLink } from "@trpc/client";
 import type { AppRouter } from "@/backend/trpc/app-router";
 import superjson from "superjson";
+import { getDeviceToken } from "@/lib/deviceAuth";
 
 export const trpc = createTRPCReact<AppRouter>();
 
@@ -15,11 +16,30 @@ const getBaseUrl = () => {
   );
 };
 
+// Subscriptions stream over server-sent events; queries and mutations stay on plain HTTP.
+// Where EventSource is missing the subscription errors and hooks fall back to polling.
 export const trpcClient = trpc.createClient({
   links: [
-    httpLink({
-      url: `${getBaseUrl()}/api/trpc`,
-      transformer: superjson,
+    splitLink({
+      condition: (op) => op.type === "subscription",
+      true: httpSubscriptionLink({
+        url: `${getBaseUrl()}/api/trpc`,
+        transformer: superjson,
+        // EventSource cannot send headers, so the device token goes as a connection param
+        async connectionParams() {
+          const token = await getDeviceToken();
+          return token ? { token } : {};
+        },
+      }),
+      false: httpLink({
+        url: `${getBaseUrl()}/api/trpc`,
+        transformer: superjson,
+        // Device token issued by auth.register
+        async headers() {
+          const token = await getDeviceToken();
+          return token ? { authorization: `Bearer ${token}` } : {};
+        },
+      }),
     }),
   ],
 });
\ No newline at end of file
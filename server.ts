@@ -6,8 +6,12 @@
  */
 
 import { serve } from '@hono/node-server';
+import { Hono } from 'hono';
 import app, { initializeWebSocketServer } from './backend/hono';
-import { HarmonicFieldProcessor } from './backend/services/HarmonicFieldProcessor';
+import { FieldRoomRegistry } from './backend/services/FieldRoomRegistry';
+import { FieldReplicator } from './backend/services/FieldReplicator';
+import { StorageProvider } from './backend/storage/StorageProvider';
+import { FieldBus } from './backend/pubsub/FieldBus';
 
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
 const host = process.env.HOST || 'localhost';
@@ -17,13 +21,19 @@ console.log(`🎵 Harmonic Resonance Engine: ACTIVE`);
 console.log(`🔮 Quantum Field Processor: READY`);
 console.log(`🌊 Room 64 Portal: STANDBY`);
 
-// Initialize the harmonic field processor
-const processor = HarmonicFieldProcessor.getInstance();
-console.log('✨ Harmonic Field Processor Initialized');
+// Open the field rooms, each with its own harmonic field processor
+const rooms = FieldRoomRegistry.getInstance();
+console.log(`✨ Harmonic Field Processors Initialized (${rooms.list().length} rooms)`);
+
+// Share field changes with other server instances on the field bus
+FieldReplicator.getInstance().start();
+
+// Mount the API at /api, as the hosted environment does
+const root = new Hono().route('/api', app);
 
 // Create HTTP server
 const server = serve({
-  fetch: app.fetch,
+  fetch: root.fetch,
   port,
   hostname: host
 });
@@ -41,6 +51,10 @@ console.log(`🧠 tRPC API: http://${host}:${port}/api/trpc`);
 process.on('SIGTERM', () => {
   console.log('🔄 Received SIGTERM, shutting down gracefully...');
   harmonicServer?.shutdown();
+  rooms.stop();
+  FieldReplicator.getInstance().stop();
+  FieldBus.getInstance().close();
+  StorageProvider.getInstance().flush();
   server.close(() => {
     console.log('✨ Consciousness Field Server shutdown complete');
     process.exit(0);
@@ -50,6 +64,10 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   console.log('🔄 Received SIGINT, shutting down gracefully...');
   harmonicServer?.shutdown();
+  rooms.stop();
+  FieldReplicator.getInstance().stop();
+  FieldBus.getInstance().close();
+  StorageProvider.getInstance().flush();
   server.close(() => {
     console.log('✨ Consciousness Field Server shutdown complete');
     process.exit(0);
@@ -58,10 +76,12 @@ process.on('SIGINT', () => {
 
 // Log field statistics every 30 seconds
 setInterval(() => {
-  const stats = processor.getFieldStats();
-  if (stats.activeNodes > 0) {
-    console.log(`📊 Field Status: ${stats.activeNodes} nodes, ${(stats.globalResonance * 100).toFixed(1)}% resonance, ${(stats.fieldCoherence * 100).toFixed(1)}% coherence`);
-  }
+  rooms.list().forEach((room) => {
+    const stats = room.processor.getFieldStats();
+    if (stats.activeNodes > 0) {
+      console.log(`📊 Field Status [${room.info.id}]: ${stats.activeNodes} nodes, ${(stats.globalResonance * 100).toFixed(1)}% resonance, ${(stats.fieldCoherence * 100).toFixed(1)}% coherence`);
+    }
+  });
 }, 30000);
 
 export default server;
\ No newline at end of file